@@ -0,0 +1,40 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { draftMode } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { pageRepository } from '../../src/dataSources';
+import { slugFromSegments } from '../../src/lib/pageRepository';
+import { pageMetadata } from '../../src/lib/pageMetadata';
+import { publishedVersion } from '../../src/lib/publishing';
+import { renderPageDoc } from '../../src/renderPageDoc';
+import type { SearchParams } from '../../src/renderPageDoc';
+
+type PageProps = {
+  params: Promise<{ slug: string[] }>;
+  searchParams: Promise<SearchParams>;
+};
+
+// generateMetadata and the page share one repository read per request
+const getPage = cache((slug: string) => pageRepository.getPage(slug));
+
+// Visitors get the published version of a page (the newest one when a draft
+// was saved over it); draft mode (see app/api/draft) shows the latest save
+async function loadPage(segments: string[]) {
+  const slug = slugFromSegments(segments);
+  const stored = slug === undefined ? undefined : await getPage(slug);
+  const preview = (await draftMode()).isEnabled;
+  const doc = stored && (preview ? stored : publishedVersion(stored));
+  if (!doc) notFound();
+  return { slug: slug!, doc, preview };
+}
+
+export async function generateMetadata({ params }: Pick<PageProps, 'params'>): Promise<Metadata> {
+  const { doc, preview } = await loadPage((await params).slug);
+  const metadata = pageMetadata(doc);
+  return preview ? { ...metadata, robots: { index: false, follow: false } } : metadata;
+}
+
+export default async function SlugPage({ params, searchParams }: PageProps) {
+  const { slug, doc, preview } = await loadPage((await params).slug);
+  return renderPageDoc(doc, await searchParams, preview ? { preview: { slug } } : {});
+}
@@ -0,0 +1,9 @@
+import { draftMode } from 'next/headers';
+import { slugFromSegments } from '../../../../src/lib/pageRepository';
+
+// Linked from the Preview banner: back to the published page (or the home page)
+export async function GET(request: Request) {
+  const slug = slugFromSegments((new URL(request.url).searchParams.get('slug') ?? '').split('/'));
+  (await draftMode()).disable();
+  return new Response(null, { status: 307, headers: { Location: slug === undefined ? '/' : `/${slug}` } });
+}
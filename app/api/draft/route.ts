@@ -0,0 +1,33 @@
+import { timingSafeEqual } from 'crypto';
+import { draftMode } from 'next/headers';
+import { pageRepository } from '../../../src/dataSources';
+import { slugFromSegments } from '../../../src/lib/pageRepository';
+
+// Without PREVIEW_SECRET there is no valid token, so preview stays off
+function isPreviewToken(token: string | null): boolean {
+  const secret = process.env.PREVIEW_SECRET;
+  if (!secret || token === null) return false;
+  const expected = Buffer.from(secret);
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * `/api/draft?secret=<PREVIEW_SECRET>&slug=events/summer` turns on draft mode
+ * and redirects to the page, which then renders whatever its status is, under
+ * a Preview banner.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  if (!isPreviewToken(searchParams.get('secret'))) {
+    return new Response('Invalid preview token', { status: 401 });
+  }
+
+  const slug = slugFromSegments((searchParams.get('slug') ?? '').split('/'));
+  if (slug === undefined || !(await pageRepository.getPage(slug))) {
+    return new Response('Page not found', { status: 404 });
+  }
+
+  (await draftMode()).enable();
+  return new Response(null, { status: 307, headers: { Location: `/${slug}` } });
+}
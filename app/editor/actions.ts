@@ -0,0 +1,31 @@
+'use server';
+
+import type { Ticket, TicketQuery } from '../../src/types';
+import { pageEditorEnabled, pageRepository, ticketSources } from '../../src/dataSources';
+import type { SaveResult } from '../../src/lib/pageEditor';
+import { formatIssue } from '../../src/lib/propSchema';
+import { PageDocValidationError } from '../../src/lib/validatePageDoc';
+
+export async function savePageDoc(slug: string, doc: unknown): Promise<SaveResult> {
+  if (!pageEditorEnabled()) {
+    return { ok: false, issues: ['The page editor is disabled'] };
+  }
+  try {
+    const saved = await pageRepository.savePage(slug, doc);
+    return { ok: true, slug, revision: saved.revision ?? 1 };
+  } catch (error) {
+    if (error instanceof PageDocValidationError) {
+      return { ok: false, issues: error.issues.map(formatIssue) };
+    }
+    return { ok: false, issues: [(error as Error).message] };
+  }
+}
+
+// Tickets for TicketList `{ source, query }` blocks in the preview
+export async function loadEditorTickets(source: string, query?: TicketQuery): Promise<Ticket[]> {
+  const ticketSource = pageEditorEnabled() ? ticketSources[source] : undefined;
+  if (!ticketSource) {
+    throw new Error(`Unknown ticket source "${source}"`);
+  }
+  return ticketSource.getTickets(query);
+}
@@ -0,0 +1,42 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { pageEditorEnabled, pageRepository, ticketSources } from '../../src/dataSources';
+import { slugFromSegments } from '../../src/lib/pageRepository';
+import PageEditor from '../../src/components/PageEditor';
+import { loadEditorTickets, savePageDoc } from './actions';
+
+type PageProps = {
+  searchParams: Promise<{ slug?: string | string[] }>;
+};
+
+// ENABLE_PAGE_EDITOR is read per request, and the disabled editor's 404 must not be prerendered
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Page editor',
+  robots: { index: false, follow: false },
+};
+
+// `/editor?slug=events` edits content/pages/events.json; without a slug it starts a new page
+export default async function EditorPage({ searchParams }: PageProps) {
+  if (!pageEditorEnabled()) notFound();
+
+  const param = (await searchParams).slug;
+  const slug = typeof param === 'string' ? slugFromSegments(param.split('/')) : undefined;
+  const [pages, doc] = await Promise.all([
+    pageRepository.listPages(),
+    slug === undefined ? undefined : pageRepository.getPage(slug),
+  ]);
+
+  return (
+    <PageEditor
+      key={slug ?? ''}
+      slug={slug ?? ''}
+      initialDoc={doc ?? { blocks: [] }}
+      pages={pages}
+      ticketSources={Object.keys(ticketSources)}
+      onSave={savePageDoc}
+      loadTickets={loadEditorTickets}
+    />
+  );
+}
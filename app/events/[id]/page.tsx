@@ -0,0 +1,36 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ticketSources } from '../../../src/dataSources';
+import { eventPageDoc } from '../../../src/lib/eventPage';
+import { pageMetadata } from '../../../src/lib/pageMetadata';
+import { renderPageDoc } from '../../../src/renderPageDoc';
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+const events = ticketSources.events!;
+
+// generateMetadata and the page share one lookup per request
+const getTicket = cache(async (id: string) => (await events.getTickets({ ids: [id] }))[0]);
+
+async function loadTicket(id: string) {
+  const ticket = await getTicket(id);
+  if (!ticket) notFound();
+  return ticket;
+}
+
+// Every known ticket is prerendered; ids added to the source later render on first request
+export async function generateStaticParams() {
+  return (await events.getTickets()).map((ticket) => ({ id: ticket.id }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  return pageMetadata(eventPageDoc(await loadTicket((await params).id)));
+}
+
+export default async function EventPage({ params }: PageProps) {
+  const ticket = await loadTicket((await params).id);
+  return renderPageDoc(eventPageDoc(ticket), {});
+}
@@ -1,6 +1,10 @@
 import type { Metadata } from 'next'
+import { vars } from '../src/lib/theme'
+import BlockErrorReporting from '../src/components/BlockErrorReporting'
 
 export const metadata: Metadata = {
+  // Resolves relative canonical and og:image URLs from page docs
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL ?? 'https://component-registry-showcase.onrender.com'),
   title: 'Component Registry Showcase',
   description: 'A modern, type-safe component registry system built with Next.js, React, TypeScript, and Builder.io integration. Features Hero, CardList, CTA, SearchBar, and TicketList components.',
   keywords: ['Next.js', 'React', 'TypeScript', 'Component Registry', 'Builder.io', 'UI Components'],
@@ -28,11 +32,12 @@ export default function RootLayout({
       <body style={{
         margin: 0,
         padding: 0,
-        fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
-        lineHeight: '1.6',
-        color: '#1f2937',
-        backgroundColor: '#f8fafc'
+        fontFamily: vars.font.family,
+        lineHeight: vars.font.lineHeight,
+        color: vars.color.text,
+        backgroundColor: vars.color.background
       }}>
+        <BlockErrorReporting />
         {children}
       </body>
     </html>
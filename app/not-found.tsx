@@ -0,0 +1,12 @@
+import { renderBlocks } from '../src/renderBlocks';
+import ThemeProvider from '../src/components/ThemeProvider';
+import type { Block } from '../src/types';
+
+const notFoundBlocks: Block[] = [
+  { type: 'Hero', props: { title: 'Page not found', subtitle: "There's no page at this address." } },
+  { type: 'CTA', props: { label: 'Back to Home', href: '/' } },
+];
+
+export default function NotFound() {
+  return <ThemeProvider style={{ minHeight: '100vh' }}>{renderBlocks(notFoundBlocks)}</ThemeProvider>;
+}
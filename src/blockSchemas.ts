@@ -0,0 +1,128 @@
+/**
+ * Block schemas
+ */
+
+import type { Block, BlockBase } from "./types";
+import type { PropsSchema } from "./lib/propSchema";
+import { currencyCodes } from "./lib/currencies";
+
+type BlockSchemas = {
+  [K in Block["type"]]: PropsSchema<Extract<Block, { type: K }>["props"]>;
+};
+
+export const ticketSchema = {
+  kind: "object",
+  fields: {
+    id: { kind: "string", required: true },
+    title: { kind: "string", required: true },
+    price: { kind: "number", required: true },
+    currency: { kind: "string", required: true, enum: currencyCodes },
+    // startsAt is a Date, which the schema DSL can't describe; TicketList checks it when rendering
+    timeZone: { kind: "string" },
+    venue: { kind: "string" },
+    city: { kind: "string" },
+    category: { kind: "string" },
+    quantityAvailable: { kind: "number" },
+    section: { kind: "string" },
+    row: { kind: "string" },
+  },
+} as const;
+
+// Layout and visibility fields every block carries next to its props (`id` is checked on its own)
+export const blockBaseSchema: PropsSchema<Omit<BlockBase, "id">> = {
+  layout: {
+    kind: "object",
+    fields: {
+      maxWidth: { kind: "string" },
+      padding: { kind: "string" },
+      align: { kind: "string", enum: ["left", "center", "right"] },
+    },
+  },
+  background: { kind: "string" },
+  anchorId: { kind: "string" },
+  hideOn: { kind: "array", of: { kind: "string", enum: ["mobile", "desktop"] } },
+};
+
+export const blockSchemas: BlockSchemas = {
+  Hero: {
+    title: { kind: "string", required: true },
+    subtitle: { kind: "string" },
+  },
+  CardList: {
+    items: {
+      kind: "array",
+      required: true,
+      of: {
+        kind: "object",
+        fields: {
+          title: { kind: "string", required: true },
+          price: { kind: "number" },
+          href: { kind: "string" },
+        },
+      },
+    },
+    mode: { kind: "string", enum: ["all", "virtual"] },
+  },
+  CTA: {
+    label: { kind: "string", required: true },
+    href: { kind: "string", required: true },
+    variant: { kind: "string", enum: ["primary", "secondary"] },
+  },
+  SearchBar: {
+    value: { kind: "string" },
+    placeholder: { kind: "string" },
+    debounceMs: { kind: "number" },
+    syncWithUrl: { kind: "boolean" },
+    urlParam: { kind: "string" },
+    historyMode: { kind: "string", enum: ["replace", "push"] },
+    "aria-label": { kind: "string" },
+    id: { kind: "string" },
+    recentSearches: { kind: "boolean" },
+    recentSearchesKey: { kind: "string" },
+  },
+  // Either inline `tickets` or a `source` resolved on the server
+  TicketList: {
+    tickets: { kind: "array", of: ticketSchema },
+    source: { kind: "string" },
+    query: {
+      kind: "object",
+      fields: {
+        ids: { kind: "array", of: { kind: "string" } },
+        search: { kind: "string" },
+        limit: { kind: "number" },
+      },
+    },
+    pageSize: { kind: "number" },
+    mode: { kind: "string", enum: ["paged", "infinite", "virtual", "all"] },
+    displayCurrency: { kind: "string", enum: currencyCodes },
+  },
+  PricePanel: {
+    ticket: { ...ticketSchema, required: true },
+  },
+  Footer: {
+    title: { kind: "string", required: true },
+    tagline: { kind: "string" },
+    badges: { kind: "array", of: { kind: "string" } },
+  },
+  Section: {
+    title: { kind: "string" },
+    as: { kind: "string", enum: ["section", "main"] },
+    variant: { kind: "string", enum: ["plain", "card"] },
+    children: { kind: "blocks", required: true },
+  },
+  Grid: {
+    columns: { kind: "number" },
+    minColumnWidth: { kind: "string" },
+    gap: { kind: "string" },
+    children: { kind: "blocks", required: true },
+  },
+  Columns: {
+    widths: { kind: "array", of: { kind: "number" } },
+    gap: { kind: "string" },
+    children: { kind: "blocks", required: true },
+  },
+  Tabs: {
+    labels: { kind: "array", required: true, of: { kind: "string" } },
+    children: { kind: "blocks", required: true },
+  },
+};
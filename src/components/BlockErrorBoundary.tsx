@@ -0,0 +1,77 @@
+// src/components/BlockErrorBoundary.tsx
+'use client';
+import { Component } from 'react';
+import type { ErrorInfo, ReactNode } from 'react';
+
+export type BlockErrorInfo = {
+  id?: string;
+  type: string;
+  index: number;
+  componentStack?: string | null;
+};
+
+export type BlockFallback = ReactNode | ((error: Error, info: BlockErrorInfo) => ReactNode);
+
+export type BlockErrorReporter = (error: Error, info: BlockErrorInfo) => void;
+
+type Props = {
+  blockId?: string;
+  blockType: string;
+  index: number;
+  fallback?: BlockFallback;
+  onBlockError?: (error: Error, info: BlockErrorInfo) => void;
+  children?: ReactNode;
+};
+
+type State = { error: Error | null };
+
+let reporter: BlockErrorReporter | undefined;
+
+/**
+ * Reports errors from boundaries rendered without `onBlockError`, which is
+ * every boundary on a server-rendered page: functions can't be passed from a
+ * server component to this one. Call it from a client module.
+ */
+export function setBlockErrorReporter(next: BlockErrorReporter | undefined) {
+  reporter = next;
+}
+
+// Visible note in development, nothing in production
+export function defaultBlockFallback(error: Error, info: BlockErrorInfo): ReactNode {
+  if (process.env.NODE_ENV === 'production') return null;
+  return <div role="note">Failed to render block: {info.type}</div>;
+}
+
+export default class BlockErrorBoundary extends Component<Props, State> {
+  static displayName = 'BlockErrorBoundary';
+
+  state: State = { error: null };
+
+  static getDerivedStateFromError(error: Error): State {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+    const report = this.props.onBlockError ?? reporter;
+    report?.(error, {
+      ...this.blockInfo(),
+      componentStack: errorInfo.componentStack,
+    });
+  }
+
+  private blockInfo(): BlockErrorInfo {
+    return {
+      id: this.props.blockId,
+      type: this.props.blockType,
+      index: this.props.index,
+    };
+  }
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    const { fallback = defaultBlockFallback } = this.props;
+    return typeof fallback === 'function' ? fallback(error, this.blockInfo()) : fallback;
+  }
+}
@@ -0,0 +1,13 @@
+'use client';
+import { setBlockErrorReporter } from './BlockErrorBoundary';
+
+// Registered when the client bundle loads, before any boundary can catch.
+// Swap the console for an error tracker to collect block failures.
+setBlockErrorReporter((error, { id, type, index }) => {
+  console.error(`Block ${type} (${id ?? `#${index}`}) failed to render`, error);
+});
+
+// Rendered once in the root layout so every page loads the reporter
+export default function BlockErrorReporting() {
+  return null;
+}
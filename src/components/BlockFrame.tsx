@@ -0,0 +1,42 @@
+// src/components/BlockFrame.tsx
+import type { CSSProperties, ReactNode } from 'react';
+import type { BlockAlign, BlockBase, BlockViewport } from '../types';
+import styles from './BlockFrame.module.css';
+
+type Props = Omit<BlockBase, 'id'> & {
+  blockId: string;
+  children: ReactNode;
+};
+
+// Where a block narrower than its container sits
+const placement: Record<BlockAlign, CSSProperties> = {
+  left: { marginRight: 'auto' },
+  center: { marginLeft: 'auto', marginRight: 'auto' },
+  right: { marginLeft: 'auto' },
+};
+
+const hiddenOn: Record<BlockViewport, string | undefined> = {
+  mobile: styles.hideOnMobile,
+  desktop: styles.hideOnDesktop,
+};
+
+// The element renderBlocks puts around every block, applying the BlockBase fields
+export default function BlockFrame({ blockId, layout, background, anchorId, hideOn = [], children }: Props) {
+  const boxed = layout !== undefined || background !== undefined || anchorId !== undefined;
+  const className = [boxed ? styles.box : styles.frame, ...hideOn.map((viewport) => hiddenOn[viewport])].join(' ');
+  const style: CSSProperties | undefined = boxed
+    ? {
+        maxWidth: layout?.maxWidth,
+        padding: layout?.padding,
+        textAlign: layout?.align,
+        ...(layout?.align && placement[layout.align]),
+        background,
+      }
+    : undefined;
+
+  return (
+    <div data-block-id={blockId} id={anchorId} className={className} style={style}>
+      {children}
+    </div>
+  );
+}
@@ -1,22 +1,33 @@
+'use client';
 import React, { useMemo } from "react";
+import VirtualList from "./VirtualList";
 
 type Item = { title: string; price?: number; href?: string };
 
-function CardListBase({ items = [] }: { items: Item[] }) {
+type Props = { items: Item[]; mode?: "all" | "virtual" };
+
+const itemKey = (it: Item, i: number) => it.href ?? `${it.title}-${i}`;
+
+const renderItem = (it: Item) => (
+  <a href={it.href ?? "#"} aria-label={it.title}>
+    {it.title} {typeof it.price === "number" ? `$${it.price}` : null}
+  </a>
+);
+
+function CardListBase({ items = [], mode = "all" }: Props) {
   const sorted = useMemo(() => items.slice().sort((a, b) => (a.price ?? 0) - (b.price ?? 0)), [items]);
   if (sorted.length === 0) return <p>No items yet.</p>;
+  if (mode === "virtual") {
+    return <VirtualList items={sorted} getKey={itemKey} renderItem={renderItem} estimatedItemHeight={28} />;
+  }
   return (
     <ul>
       {sorted.map((it, i) => (
-        <li key={it.href ?? `${it.title}-${i}`}>
-          <a href={it.href ?? "#"} aria-label={it.title}>
-            {it.title} {typeof it.price === "number" ? `$${it.price}` : null}
-          </a>
-        </li>
+        <li key={itemKey(it, i)}>{renderItem(it)}</li>
       ))}
     </ul>
   );
 }
 
 const CardList = Object.assign(React.memo(CardListBase), { displayName: "CardList" });
-export default CardList;
\ No newline at end of file
+export default CardList;
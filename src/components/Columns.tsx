@@ -0,0 +1,23 @@
+import { Children } from "react";
+import type { ReactNode } from "react";
+
+type Props = {
+  widths?: number[];
+  gap?: string;
+  children?: ReactNode;
+};
+
+export default function Columns({ widths = [], gap = '1.5rem', children }: Props) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap, marginBottom: '2rem' }}>
+      {Children.toArray(children).map((child, i) => (
+        <div
+          key={i}
+          style={{ flex: `${widths[i] ?? 1} 1 240px`, minWidth: 0 }}
+        >
+          {child}
+        </div>
+      ))}
+    </div>
+  );
+}
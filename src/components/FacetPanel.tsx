@@ -0,0 +1,235 @@
+// src/components/FacetPanel.tsx
+'use client';
+import type { ChangeEvent } from 'react';
+import type { Currency } from '../types';
+import { hasActiveFilters } from '../lib/ticketFilters';
+import type { FacetCount, TicketFilters } from '../lib/ticketFilters';
+import { vars } from '../lib/theme';
+
+type Props = {
+  filters: TicketFilters;
+  onChange: (filters: TicketFilters) => void;
+  categories: FacetCount[];
+  currencies: FacetCount[];
+  // Slider bounds in the display currency; no slider without prices
+  priceRange?: { min: number; max: number };
+  displayCurrency: Currency;
+  showDates: boolean;
+};
+
+const fieldsetStyle = {
+  border: 'none',
+  padding: 0,
+  margin: '0 0 1rem 0',
+  minWidth: 0,
+};
+
+const legendStyle = {
+  padding: 0,
+  marginBottom: vars.space.sm,
+  fontSize: vars.font.sizeSm,
+  fontWeight: vars.font.weightSemibold,
+  color: vars.color.accentStrong,
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: vars.space.xs,
+  fontSize: vars.font.sizeSm,
+  fontWeight: vars.font.weightMedium,
+  color: vars.color.accentStrong,
+};
+
+const inputStyle = {
+  padding: vars.space.sm,
+  border: `1px solid ${vars.color.borderStrong}`,
+  borderRadius: vars.radius.md,
+  fontSize: vars.font.sizeSm,
+  backgroundColor: vars.color.surface,
+  boxSizing: 'border-box' as const,
+};
+
+const formatWhole = (amount: number, currency: string) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+};
+
+export default function FacetPanel({
+  filters,
+  onChange,
+  categories,
+  currencies,
+  priceRange,
+  displayCurrency,
+  showDates,
+}: Props) {
+  const update = (patch: Partial<TicketFilters>) => {
+    const next: TicketFilters = { ...filters, ...patch };
+    // Unset rather than store undefined, so filters serialize and compare cleanly
+    for (const key of Object.keys(next) as (keyof TicketFilters)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    onChange(next);
+  };
+
+  const toggleCategory = (value: string) => {
+    const selected = filters.categories.includes(value)
+      ? filters.categories.filter((category) => category !== value)
+      : [...filters.categories, value];
+    update({ categories: selected });
+  };
+
+  // Thumbs at the ends of the range mean "no limit"
+  const minValue = priceRange ? Math.max(priceRange.min, filters.minPrice ?? priceRange.min) : 0;
+  const maxValue = priceRange ? Math.min(priceRange.max, filters.maxPrice ?? priceRange.max) : 0;
+
+  const handleMinPrice = (e: ChangeEvent<HTMLInputElement>) => {
+    if (!priceRange) return;
+    const value = Math.min(Number(e.target.value), maxValue);
+    update({ minPrice: value <= priceRange.min ? undefined : value });
+  };
+
+  const handleMaxPrice = (e: ChangeEvent<HTMLInputElement>) => {
+    if (!priceRange) return;
+    const value = Math.max(Number(e.target.value), minValue);
+    update({ maxPrice: value >= priceRange.max ? undefined : value });
+  };
+
+  // Selected categories stay listed even when nothing else matches them
+  const categoryOptions = [
+    ...categories,
+    ...filters.categories
+      .filter((value) => !categories.some((category) => category.value === value))
+      .map((value) => ({ value, count: 0 })),
+  ];
+
+  return (
+    <div style={{
+      marginBottom: vars.space.xl,
+      padding: vars.space.md,
+      backgroundColor: vars.color.accentSubtle,
+      borderRadius: vars.radius.lg,
+      border: `2px solid ${vars.color.accent}`
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <h3 style={{ margin: 0, fontSize: vars.font.sizeMd, color: vars.color.accentStrong }}>🎛️ Filters</h3>
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange({ categories: [] })}
+            style={{
+              padding: '0.25rem 0.75rem',
+              border: `1px solid ${vars.color.accent}`,
+              borderRadius: vars.radius.md,
+              backgroundColor: vars.color.surface,
+              color: vars.color.accentStrong,
+              fontSize: vars.font.sizeSm,
+              cursor: 'pointer'
+            }}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {categoryOptions.length > 0 && (
+        <fieldset style={fieldsetStyle}>
+          <legend style={legendStyle}>Category</legend>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem 1rem' }}>
+            {categoryOptions.map(({ value, count }) => (
+              <label key={value} style={{ display: 'inline-flex', alignItems: 'center', gap: '0.375rem', fontSize: vars.font.sizeSm, color: vars.color.textSecondary, cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={filters.categories.includes(value)}
+                  onChange={() => toggleCategory(value)}
+                />
+                {value} ({count})
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: vars.space.md }}>
+        {priceRange && (
+          <fieldset style={{ ...fieldsetStyle, flex: '2 1 260px' }}>
+            <legend style={legendStyle}>Price ({displayCurrency})</legend>
+            <p aria-live="polite" style={{ margin: '0 0 0.5rem 0', fontSize: vars.font.sizeSm, color: vars.color.textSecondary }}>
+              {formatWhole(minValue, displayCurrency)} – {formatWhole(maxValue, displayCurrency)}
+            </p>
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+              <input
+                type="range"
+                aria-label="Minimum price"
+                aria-valuetext={formatWhole(minValue, displayCurrency)}
+                min={priceRange.min}
+                max={priceRange.max}
+                step={1}
+                value={minValue}
+                onChange={handleMinPrice}
+                style={{ flex: 1 }}
+              />
+              <input
+                type="range"
+                aria-label="Maximum price"
+                aria-valuetext={formatWhole(maxValue, displayCurrency)}
+                min={priceRange.min}
+                max={priceRange.max}
+                step={1}
+                value={maxValue}
+                onChange={handleMaxPrice}
+                style={{ flex: 1 }}
+              />
+            </div>
+          </fieldset>
+        )}
+
+        {currencies.length > 1 && (
+          <div style={{ flex: '1 1 160px', marginBottom: vars.space.md }}>
+            <label htmlFor="currency-filter" style={labelStyle}>Ticket currency</label>
+            <select
+              id="currency-filter"
+              value={filters.currency ?? ''}
+              onChange={(e) => update({ currency: (e.target.value || undefined) as Currency | undefined })}
+              style={{ ...inputStyle, width: '100%' }}
+            >
+              <option value="">All currencies</option>
+              {currencies.map(({ value, count }) => (
+                <option key={value} value={value}>{value} ({count})</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {showDates && (
+          <fieldset style={{ ...fieldsetStyle, flex: '2 1 260px' }}>
+            <legend style={legendStyle}>Event date</legend>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem' }}>
+              <div>
+                <label htmlFor="date-from" style={labelStyle}>From</label>
+                <input
+                  id="date-from"
+                  type="date"
+                  value={filters.from ?? ''}
+                  max={filters.to}
+                  onChange={(e) => update({ from: e.target.value || undefined })}
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label htmlFor="date-to" style={labelStyle}>To</label>
+                <input
+                  id="date-to"
+                  type="date"
+                  value={filters.to ?? ''}
+                  min={filters.from}
+                  onChange={(e) => update({ to: e.target.value || undefined })}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+          </fieldset>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { vars } from '../lib/theme';
+
+export default function Footer({ title, tagline, badges = [] }: { title: string; tagline?: string; badges?: string[] }) {
+  return (
+    <footer style={{
+      backgroundColor: vars.color.footer,
+      color: vars.color.footerText,
+      padding: 'clamp(1.5rem, 4vw, 2rem) clamp(0.5rem, 2vw, 1rem)',
+      textAlign: 'center',
+      borderTop: `1px solid ${vars.color.footerBorder}`
+    }}>
+      <div style={{
+        maxWidth: '1200px',
+        margin: '0 auto'
+      }}>
+        <p style={{
+          margin: '0 0 1rem 0',
+          fontSize: 'clamp(1rem, 3vw, 1.125rem)',
+          fontWeight: vars.font.weightSemibold
+        }}>
+          {title}
+        </p>
+        {tagline && (
+          <p style={{
+            margin: '0 0 1rem 0',
+            color: vars.color.footerMuted,
+            fontSize: 'clamp(0.75rem, 2.5vw, 0.875rem)'
+          }}>
+            {tagline}
+          </p>
+        )}
+        {badges.length > 0 && (
+          <div style={{
+            display: 'flex',
+            justifyContent: 'center',
+            gap: 'clamp(1rem, 3vw, 2rem)',
+            flexWrap: 'wrap',
+            fontSize: 'clamp(0.75rem, 2.5vw, 0.875rem)',
+            color: vars.color.footerSubtle
+          }}>
+            {badges.map((badge) => (
+              <span key={badge}>{badge}</span>
+            ))}
+          </div>
+        )}
+      </div>
+    </footer>
+  );
+}
@@ -0,0 +1,21 @@
+import type { ReactNode } from "react";
+
+type Props = {
+  columns?: number;
+  minColumnWidth?: string;
+  gap?: string;
+  children?: ReactNode;
+};
+
+export default function Grid({ columns, minColumnWidth = '240px', gap = '1.5rem', children }: Props) {
+  // Fixed column count when given, otherwise as many columns as fit
+  const template = columns
+    ? `repeat(${columns}, minmax(0, 1fr))`
+    : `repeat(auto-fit, minmax(${minColumnWidth}, 1fr))`;
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: template, gap, marginBottom: '2rem' }}>
+      {children}
+    </div>
+  );
+}
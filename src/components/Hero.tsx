@@ -1,18 +1,19 @@
+import { vars } from '../lib/theme';
 
 export default function Hero({ title, subtitle }: { title: string; subtitle?: string }) {
   return (
     <header style={{
       textAlign: 'center',
       padding: 'clamp(2rem, 5vw, 4rem) 0',
-      marginBottom: '2rem',
+      marginBottom: vars.space.xl,
       position: 'relative'
     }}>
       <h1 style={{
         fontSize: 'clamp(2rem, 6vw, 3.5rem)',
-        fontWeight: '800',
-        color: '#1f2937',
+        fontWeight: vars.font.weightExtrabold,
+        color: vars.color.text,
         marginBottom: subtitle ? '1.5rem' : '0',
-        background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+        background: vars.gradient.hero,
         WebkitBackgroundClip: 'text',
         WebkitTextFillColor: 'transparent',
         backgroundClip: 'text',
@@ -26,10 +27,10 @@ export default function Hero({ title, subtitle }: { title: string; subtitle?: st
         <h2 style={{
           fontSize: 'clamp(1rem, 3vw, 1.375rem)',
           fontWeight: '400',
-          color: '#6b7280',
+          color: vars.color.textMuted,
           maxWidth: '700px',
           margin: '0 auto',
-          lineHeight: '1.6',
+          lineHeight: vars.font.lineHeight,
           letterSpacing: '-0.01em'
         }}>
           {subtitle}
@@ -0,0 +1,32 @@
+// src/components/Highlight.tsx
+import type { ReactNode } from 'react';
+import type { MatchRange } from '../lib/search';
+import { vars } from '../lib/theme';
+
+type Props = {
+  text: string;
+  // Sorted, non-overlapping ranges as returned by the search index
+  ranges?: MatchRange[];
+};
+
+const markStyle = {
+  backgroundColor: vars.color.highlight,
+  color: 'inherit',
+  borderRadius: vars.radius.xs,
+  padding: '0 1px',
+};
+
+export default function Highlight({ text, ranges = [] }: Props) {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} style={markStyle}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,16 @@
+// src/components/JsonLd.tsx
+import type { JsonLd as JsonLdData } from '../lib/structuredData';
+
+type Props = {
+  data: JsonLdData;
+};
+
+// `<` is escaped so text inside the data (a ticket title, say) can't close the script early
+export default function JsonLd({ data }: Props) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+}
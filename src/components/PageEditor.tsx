@@ -0,0 +1,406 @@
+// src/components/PageEditor.tsx
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { ChangeEvent, ReactNode } from 'react';
+import type { Block, PageDoc, Ticket, TicketQuery } from '../types';
+import { registry } from '../registry';
+import type { AnyBlockDefinition } from '../registry';
+import { renderBlocks } from '../renderBlocks';
+import { blockBaseSchema } from '../blockSchemas';
+import { withBlockIds } from '../lib/blockIds';
+import {
+  blockAt,
+  collectBlockIds,
+  findBlockPath,
+  insertBlockAt,
+  moveBlockAt,
+  newBlock,
+  nextBlockId,
+  removeBlockAt,
+  updateBlockAt,
+} from '../lib/pageEditor';
+import type { BlockPath, SaveResult } from '../lib/pageEditor';
+import type { PropSchema } from '../lib/propSchema';
+import { formatIssue, isPlainObject } from '../lib/propSchema';
+import { pageStatuses } from '../lib/publishing';
+import { resolveTicketData } from '../lib/resolveTicketData';
+import type { TicketSources } from '../lib/ticketSources';
+import { themeNames, vars } from '../lib/theme';
+import { lookupSchema, seoSchema, validatePageDoc } from '../lib/validatePageDoc';
+import SchemaForm from './SchemaForm';
+import ThemeProvider from './ThemeProvider';
+
+type Props = {
+  slug: string;
+  initialDoc: PageDoc;
+  // Stored slugs, for the "Open" picker
+  pages: string[];
+  // Names of the server's ticket sources; the preview loads them through loadTickets
+  ticketSources: string[];
+  onSave: (slug: string, doc: PageDoc) => Promise<SaveResult>;
+  loadTickets: (source: string, query?: TicketQuery) => Promise<Ticket[]>;
+};
+
+const settingsFields: Record<string, PropSchema> = {
+  pageTitle: { kind: 'string' },
+  status: { kind: 'string', enum: pageStatuses },
+  publishAt: { kind: 'string' },
+  unpublishAt: { kind: 'string' },
+  theme: { kind: 'object', fields: { name: { kind: 'string', enum: themeNames } } },
+  seo: seoSchema,
+};
+
+const lookup = (type: string) => lookupSchema(type);
+
+// Block types for the "Add block" pickers, grouped by their meta category
+const definitionGroups = Array.from(
+  registry
+    .definitions()
+    .reduce((groups, definition) => {
+      const category = definition.meta?.category ?? 'Other';
+      groups.set(category, [...(groups.get(category) ?? []), definition]);
+      return groups;
+    }, new Map<string, AnyBlockDefinition[]>())
+    .entries()
+);
+
+const panelStyle = {
+  padding: vars.space.md,
+  border: `1px solid ${vars.color.border}`,
+  borderRadius: vars.radius.lg,
+  backgroundColor: vars.color.surface,
+};
+
+const headingStyle = {
+  margin: `0 0 ${vars.space.sm} 0`,
+  fontSize: vars.font.sizeSm,
+  fontWeight: vars.font.weightSemibold,
+  color: vars.color.textStrong,
+};
+
+const controlStyle = {
+  padding: '0.375rem 0.5rem',
+  border: `1px solid ${vars.color.borderStrong}`,
+  borderRadius: vars.radius.md,
+  backgroundColor: vars.color.surface,
+  color: 'inherit',
+  fontSize: vars.font.sizeSm,
+};
+
+const iconButtonStyle = {
+  ...controlStyle,
+  padding: '0.125rem 0.375rem',
+  fontSize: vars.font.sizeXs,
+  cursor: 'pointer',
+};
+
+const treeStyle = {
+  listStyle: 'none',
+  margin: 0,
+  padding: 0,
+  display: 'grid',
+  gap: vars.space.xs,
+};
+
+function propsOf(block: Block): Record<string, unknown> {
+  const props: unknown = block.props;
+  return isPlainObject(props) ? props : {};
+}
+
+// "Hero: Welcome" — the block's label plus its title or label prop, when it has one
+function blockName(block: Block): string {
+  const label = registry.get(block.type)?.meta?.label ?? block.type;
+  const props = propsOf(block);
+  const text = [props.title, props.label].find((value): value is string => typeof value === 'string' && value !== '');
+  return text ? `${label}: ${text}` : label;
+}
+
+function AddBlock({ label, onAdd }: { label: string; onAdd: (type: string) => void }) {
+  return (
+    <select aria-label={label} value="" onChange={(e) => e.target.value && onAdd(e.target.value)} style={controlStyle}>
+      <option value="">+ Add block</option>
+      {definitionGroups.map(([category, definitions]) => (
+        <optgroup key={category} label={category}>
+          {definitions.map((definition) => (
+            <option key={definition.type} value={definition.type}>
+              {definition.meta?.label ?? definition.type}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * The /editor screen: a block tree to select, add, reorder and delete
+ * blocks, a props form generated from the selected block's schema, and a
+ * live preview rendered through renderBlocks. Documents can be exported and
+ * imported as JSON and saved to the page repository through onSave.
+ */
+export default function PageEditor({ slug: initialSlug, initialDoc, pages, ticketSources, onSave, loadTickets }: Props) {
+  // Every block gets an id up front, so selection survives edits and moves
+  const [doc, setDoc] = useState<PageDoc>(() => ({ ...initialDoc, blocks: withBlockIds(initialDoc.blocks, lookup) }));
+  const [slug, setSlug] = useState(initialSlug);
+  const [selectedId, setSelectedId] = useState(doc.blocks[0]?.id);
+  const [status, setStatus] = useState('');
+  const [saveIssues, setSaveIssues] = useState<string[]>([]);
+  const [preview, setPreview] = useState<Block[]>([]);
+
+  // Lenient validation: the preview shows what a reload would serve, the issues what a save would reject
+  const { value: checked, issues } = useMemo(() => validatePageDoc(doc), [doc]);
+
+  // One request per source and query, so edits to other blocks don't refetch tickets
+  const sources = useMemo<TicketSources>(() => {
+    const cache = new Map<string, Promise<Ticket[]>>();
+    return Object.fromEntries(
+      ticketSources.map((name) => [
+        name,
+        {
+          getTickets(query?: TicketQuery) {
+            const key = `${name}:${JSON.stringify(query ?? {})}`;
+            let tickets = cache.get(key);
+            if (!tickets) {
+              tickets = loadTickets(name, query);
+              tickets.catch(() => cache.delete(key));
+              cache.set(key, tickets);
+            }
+            return tickets;
+          },
+        },
+      ])
+    );
+  }, [ticketSources, loadTickets]);
+
+  useEffect(() => {
+    let current = true;
+    resolveTicketData(checked.blocks, sources).then(({ value }) => {
+      if (current) setPreview(value);
+    });
+    return () => {
+      current = false;
+    };
+  }, [checked, sources]);
+
+  const selectedPath = selectedId === undefined ? undefined : findBlockPath(doc.blocks, selectedId);
+  const selected = selectedPath && blockAt(doc.blocks, selectedPath);
+  const selectedDefinition = selected && registry.get(selected.type);
+
+  const setBlocks = (blocks: Block[]) => setDoc((current) => ({ ...current, blocks }));
+
+  const addBlock = (listPath: BlockPath, type: string) => {
+    const definition = registry.get(type);
+    if (!definition) return;
+    const id = nextBlockId(type, collectBlockIds(doc.blocks));
+    setBlocks(insertBlockAt(doc.blocks, listPath, newBlock(definition, id) as Block));
+    setSelectedId(id);
+  };
+
+  const setSettings = (settings: Record<string, unknown>) =>
+    setDoc((current) => {
+      const next: Record<string, unknown> = { ...current };
+      for (const name of Object.keys(settingsFields)) delete next[name];
+      return { ...next, ...settings } as PageDoc;
+    });
+
+  const importFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(String(reader.result));
+      } catch {
+        setStatus(`${file.name} is not valid JSON`);
+        return;
+      }
+      const { value, issues: dropped } = validatePageDoc(parsed);
+      const blocks = withBlockIds(value.blocks, lookup);
+      setDoc({ ...value, blocks });
+      setSelectedId(blocks[0]?.id);
+      setSaveIssues(dropped.map(formatIssue));
+      setStatus(dropped.length > 0 ? `Imported ${file.name}; invalid parts were dropped` : `Imported ${file.name}`);
+    };
+    reader.readAsText(file);
+  };
+
+  const save = async () => {
+    setStatus('Saving…');
+    setSaveIssues([]);
+    const result = await onSave(slug.trim(), doc);
+    if (result.ok) {
+      setStatus(`Saved /${result.slug} (revision ${result.revision})`);
+    } else {
+      setStatus('Not saved');
+      setSaveIssues(result.issues);
+    }
+  };
+
+  const renderTree = (blocks: Block[], listPath: BlockPath): ReactNode => (
+    <ol style={treeStyle}>
+      {blocks.map((block, index) => {
+        const path = [...listPath, index];
+        const name = blockName(block);
+        const nested = Object.entries(lookup(block.type) ?? {}).filter(([, field]) => field.kind === 'blocks');
+        return (
+          <li key={block.id ?? index}>
+            <div style={{ display: 'flex', gap: vars.space.xs, alignItems: 'center' }}>
+              <button
+                type="button"
+                aria-pressed={block.id === selectedId}
+                onClick={() => setSelectedId(block.id)}
+                style={{
+                  ...controlStyle,
+                  flex: 1,
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  borderColor: block.id === selectedId ? vars.color.primary : vars.color.borderStrong,
+                }}
+              >
+                {name}
+              </button>
+              <button
+                type="button"
+                aria-label={`Move ${name} up`}
+                disabled={index === 0}
+                onClick={() => setBlocks(moveBlockAt(doc.blocks, path, -1))}
+                style={iconButtonStyle}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                aria-label={`Move ${name} down`}
+                disabled={index === blocks.length - 1}
+                onClick={() => setBlocks(moveBlockAt(doc.blocks, path, 1))}
+                style={iconButtonStyle}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                aria-label={`Delete ${name}`}
+                onClick={() => setBlocks(removeBlockAt(doc.blocks, path))}
+                style={iconButtonStyle}
+              >
+                ✕
+              </button>
+            </div>
+            {nested.map(([field]) => {
+              const children = propsOf(block)[field];
+              return (
+                <div key={field} style={{ marginTop: vars.space.xs, paddingLeft: vars.space.md, display: 'grid', gap: vars.space.xs }}>
+                  {renderTree(Array.isArray(children) ? (children as Block[]) : [], [...path, field])}
+                  <AddBlock label={`Add block to ${name}`} onAdd={(type) => addBlock([...path, field], type)} />
+                </div>
+              );
+            })}
+          </li>
+        );
+      })}
+    </ol>
+  );
+
+  const exportHref = `data:application/json;charset=utf-8,${encodeURIComponent(`${JSON.stringify(doc, null, 2)}\n`)}`;
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'minmax(300px, 380px) 1fr', minHeight: '100vh', gap: vars.space.md, padding: vars.space.md, boxSizing: 'border-box' }}>
+      <aside style={{ display: 'grid', alignContent: 'start', gap: vars.space.md }}>
+        <section style={panelStyle} aria-label="Document">
+          <form action="/editor" method="get" style={{ display: 'flex', gap: vars.space.xs, marginBottom: vars.space.sm }}>
+            <select name="slug" aria-label="Page" defaultValue={initialSlug} style={{ ...controlStyle, flex: 1 }}>
+              {pages.map((page) => (
+                <option key={page} value={page}>/{page}</option>
+              ))}
+            </select>
+            <button type="submit" style={iconButtonStyle}>Open</button>
+            <Link href="/editor" style={{ ...iconButtonStyle, textDecoration: 'none' }}>New page</Link>
+          </form>
+          <div style={{ display: 'flex', gap: vars.space.xs, alignItems: 'center' }}>
+            <label htmlFor="page-editor-slug" style={{ fontSize: vars.font.sizeSm }}>Slug</label>
+            <input
+              id="page-editor-slug"
+              value={slug}
+              placeholder="events/summer"
+              onChange={(e) => setSlug(e.target.value)}
+              style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+            />
+            <button type="button" onClick={save} style={iconButtonStyle}>Save</button>
+          </div>
+          <div style={{ display: 'flex', gap: vars.space.sm, marginTop: vars.space.sm, fontSize: vars.font.sizeSm }}>
+            <a href={exportHref} download={`${slug.trim().replace(/\//g, '-') || 'page'}.json`}>Export JSON</a>
+            <label>
+              Import JSON <input type="file" accept="application/json,.json" onChange={importFile} />
+            </label>
+          </div>
+          <p role="status" style={{ margin: `${vars.space.sm} 0 0 0`, fontSize: vars.font.sizeSm }}>{status}</p>
+          {saveIssues.length > 0 && (
+            <ul style={{ margin: 0, paddingLeft: vars.space.lg, fontSize: vars.font.sizeXs, color: vars.color.danger }}>
+              {saveIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+            </ul>
+          )}
+        </section>
+
+        <section style={panelStyle} aria-labelledby="page-editor-settings">
+          <h2 id="page-editor-settings" style={headingStyle}>Page</h2>
+          <SchemaForm
+            fields={settingsFields}
+            value={Object.fromEntries(Object.keys(settingsFields).map((name) => [name, doc[name as keyof PageDoc]]))}
+            onChange={setSettings}
+          />
+        </section>
+
+        <section style={panelStyle} aria-labelledby="page-editor-blocks">
+          <h2 id="page-editor-blocks" style={headingStyle}>Blocks</h2>
+          <div style={{ display: 'grid', gap: vars.space.xs }}>
+            {renderTree(doc.blocks, [])}
+            <AddBlock label="Add block" onAdd={(type) => addBlock([], type)} />
+          </div>
+        </section>
+
+        <section style={panelStyle} aria-label="Properties">
+          <h2 style={headingStyle}>{selected ? blockName(selected) : 'Properties'}</h2>
+          {selected && selectedPath ? (
+            <div style={{ display: 'grid', gap: vars.space.md }}>
+              <SchemaForm
+                fields={selectedDefinition?.schema ?? {}}
+                value={propsOf(selected)}
+                onChange={(props) => setBlocks(updateBlockAt(doc.blocks, selectedPath, (block) => ({ ...block, props }) as Block))}
+              />
+              <fieldset style={{ margin: 0, padding: vars.space.sm, border: `1px solid ${vars.color.border}`, borderRadius: vars.radius.md }}>
+                <legend style={{ fontSize: vars.font.sizeSm, fontWeight: vars.font.weightMedium }}>Layout</legend>
+                <SchemaForm
+                  fields={blockBaseSchema}
+                  value={{ layout: selected.layout, background: selected.background, anchorId: selected.anchorId, hideOn: selected.hideOn }}
+                  onChange={(base) =>
+                    setBlocks(updateBlockAt(doc.blocks, selectedPath, (block) => ({ id: block.id, type: block.type, props: block.props, ...base }) as Block))
+                  }
+                />
+              </fieldset>
+            </div>
+          ) : (
+            <p style={{ margin: 0, fontSize: vars.font.sizeSm, color: vars.color.textMuted }}>Select a block to edit its properties.</p>
+          )}
+        </section>
+
+        {issues.length > 0 && (
+          <section style={panelStyle} aria-labelledby="page-editor-issues">
+            <h2 id="page-editor-issues" style={{ ...headingStyle, color: vars.color.danger }}>Problems</h2>
+            <ul style={{ margin: 0, paddingLeft: vars.space.lg, fontSize: vars.font.sizeXs }}>
+              {issues.map((issue, i) => <li key={i}>{formatIssue(issue)}</li>)}
+            </ul>
+          </section>
+        )}
+      </aside>
+
+      <main aria-label="Preview" style={{ border: `1px solid ${vars.color.border}`, borderRadius: vars.radius.lg, overflow: 'hidden' }}>
+        <ThemeProvider theme={checked.theme?.name} overrides={checked.theme?.overrides} style={{ minHeight: '100%', display: 'flex', flexDirection: 'column' }}>
+          {renderBlocks(preview)}
+        </ThemeProvider>
+      </main>
+    </div>
+  );
+}
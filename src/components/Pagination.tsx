@@ -0,0 +1,83 @@
+// src/components/Pagination.tsx
+'use client';
+import { pageWindow } from '../lib/pagination';
+import { vars } from '../lib/theme';
+
+type Props = {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  'aria-label'?: string;
+};
+
+const buttonStyle = {
+  minWidth: '2.5rem',
+  padding: '0.5rem 0.75rem',
+  border: `1px solid ${vars.color.borderStrong}`,
+  borderRadius: vars.radius.md,
+  backgroundColor: vars.color.surface,
+  color: vars.color.textSecondary,
+  fontSize: vars.font.sizeSm,
+  cursor: 'pointer',
+};
+
+const currentStyle = {
+  ...buttonStyle,
+  backgroundColor: vars.color.primary,
+  borderColor: vars.color.primary,
+  color: vars.color.onPrimary,
+  fontWeight: vars.font.weightSemibold,
+};
+
+export default function Pagination({ page, pageCount, onPageChange, 'aria-label': ariaLabel = 'Pagination' }: Props) {
+  if (pageCount <= 1) return null;
+
+  const edgeStyle = (disabled: boolean) => ({
+    ...buttonStyle,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  // Plain buttons rather than a list, so the ticket list stays the only list on the page
+  return (
+    <nav
+      aria-label={ariaLabel}
+      style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: vars.space.sm, marginTop: vars.space.lg }}
+    >
+      <button
+        type="button"
+        onClick={() => onPageChange(page - 1)}
+        disabled={page <= 1}
+        aria-label="Previous page"
+        style={edgeStyle(page <= 1)}
+      >
+        ‹ Prev
+      </button>
+      {pageWindow(page, pageCount).map((p, i) =>
+        p === null ? (
+          <span key={`gap-${i}`} aria-hidden="true" style={{ color: vars.color.textMuted }}>…</span>
+        ) : (
+          <button
+            key={p}
+            type="button"
+            onClick={() => onPageChange(p)}
+            aria-label={`Page ${p}`}
+            aria-current={p === page ? 'page' : undefined}
+            style={p === page ? currentStyle : buttonStyle}
+          >
+            {p}
+          </button>
+        )
+      )}
+      <button
+        type="button"
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= pageCount}
+        aria-label="Next page"
+        style={edgeStyle(page >= pageCount)}
+      >
+        Next ›
+      </button>
+    </nav>
+  );
+}
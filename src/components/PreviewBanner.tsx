@@ -0,0 +1,37 @@
+import { vars } from '../lib/theme';
+
+type Props = {
+  slug: string;
+  // e.g. "Draft" or "Scheduled for 1 Jul 2025, 09:00 UTC"
+  status: string;
+};
+
+// Marks a draft-mode render, so an unpublished page is never mistaken for the live one
+export default function PreviewBanner({ slug, status }: Props) {
+  return (
+    <aside
+      aria-label="Preview"
+      style={{
+        position: 'sticky',
+        top: 0,
+        zIndex: 20,
+        display: 'flex',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: vars.space.sm,
+        padding: `${vars.space.sm} ${vars.space.md}`,
+        backgroundColor: vars.color.warningSubtle,
+        color: vars.color.warningStrong,
+        borderBottom: `2px solid ${vars.color.warning}`,
+        fontSize: vars.font.sizeSm,
+      }}
+    >
+      <strong style={{ textTransform: 'uppercase', letterSpacing: '0.05em' }}>Preview</strong>
+      <span>{status}</span>
+      <a href={`/api/draft/exit?slug=${encodeURIComponent(slug)}`} style={{ color: 'inherit', fontWeight: vars.font.weightSemibold }}>
+        Exit preview
+      </a>
+    </aside>
+  );
+}
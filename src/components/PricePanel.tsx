@@ -0,0 +1,54 @@
+import type { Currency, Ticket } from "../types";
+import { convertPrice } from "../lib/exchangeRates";
+import TicketDetails, { Availability, formatPrice } from "./TicketDetails";
+import { vars } from "../lib/theme";
+
+// Approximate prices shown under the ticket's own
+const REFERENCE_CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP'];
+
+export default function PricePanel({ ticket }: { ticket: Ticket }) {
+  const conversions = REFERENCE_CURRENCIES.filter((currency) => currency !== ticket.currency).flatMap((currency) => {
+    const converted = convertPrice(ticket.price, ticket.currency, currency);
+    return converted === undefined ? [] : [formatPrice(converted, currency)];
+  });
+
+  return (
+    <section aria-label="Price" style={{
+      backgroundColor: vars.color.surface,
+      borderRadius: vars.radius.xxl,
+      padding: 'clamp(1.5rem, 4vw, 2rem)',
+      boxShadow: vars.shadow.lg,
+      border: `1px solid ${vars.color.border}`,
+      marginBottom: vars.space.xl
+    }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'flex-start', gap: vars.space.md }}>
+        <div>
+          {ticket.category && (
+            <span style={{
+              padding: '0.125rem 0.5rem',
+              borderRadius: vars.radius.full,
+              backgroundColor: vars.color.badge,
+              color: vars.color.badgeText,
+              fontSize: vars.font.sizeXs,
+              fontWeight: vars.font.weightMedium
+            }}>
+              {ticket.category}
+            </span>
+          )}
+          <TicketDetails ticket={ticket} />
+        </div>
+        <div style={{ textAlign: 'right' }}>
+          <p style={{ margin: 0, fontSize: '2rem', fontWeight: vars.font.weightBold, color: vars.color.success }}>
+            {formatPrice(ticket.price, ticket.currency)}
+          </p>
+          {conversions.length > 0 && (
+            <p style={{ margin: '0.25rem 0 0', fontSize: vars.font.sizeSm, color: vars.color.textMuted }}>
+              ≈ {conversions.join(' · ')}
+            </p>
+          )}
+          {ticket.quantityAvailable !== undefined && <Availability quantity={ticket.quantityAvailable} />}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,246 @@
+// src/components/SchemaForm.tsx
+'use client';
+import { useId } from 'react';
+import type { ReactNode } from 'react';
+import type { PropSchema } from '../lib/propSchema';
+import { isPlainObject } from '../lib/propSchema';
+import { defaultValue, fieldLabel } from '../lib/pageEditor';
+import { vars } from '../lib/theme';
+
+type Fields = Record<string, PropSchema | undefined>;
+
+type Props = {
+  fields: Fields;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: vars.space.xs,
+  fontSize: vars.font.sizeSm,
+  fontWeight: vars.font.weightMedium,
+  color: vars.color.textSecondary
+};
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.375rem 0.5rem',
+  border: `1px solid ${vars.color.borderStrong}`,
+  borderRadius: vars.radius.md,
+  backgroundColor: vars.color.surface,
+  color: 'inherit',
+  fontSize: vars.font.sizeSm,
+  boxSizing: 'border-box' as const
+};
+
+const fieldsetStyle = {
+  margin: 0,
+  padding: vars.space.sm,
+  border: `1px solid ${vars.color.border}`,
+  borderRadius: vars.radius.md
+};
+
+const smallButtonStyle = {
+  padding: '0.125rem 0.5rem',
+  border: `1px solid ${vars.color.borderStrong}`,
+  borderRadius: vars.radius.sm,
+  backgroundColor: vars.color.surface,
+  color: vars.color.textSecondary,
+  fontSize: vars.font.sizeXs,
+  cursor: 'pointer'
+};
+
+/**
+ * A form for an object of props, generated from its schema. Clearing an
+ * optional field removes it from the value. Nested block lists ("blocks"
+ * fields) are left to the editor's block tree.
+ */
+export default function SchemaForm({ fields, value, onChange }: Props) {
+  const setField = (name: string, next: unknown) => {
+    const updated = { ...value };
+    if (next === undefined) {
+      delete updated[name];
+    } else {
+      updated[name] = next;
+    }
+    onChange(updated);
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: vars.space.sm }}>
+      {Object.entries(fields).map(([name, schema]) =>
+        schema && schema.kind !== 'blocks' ? (
+          <Field key={name} label={fieldLabel(name)} schema={schema} value={value[name]} onChange={(next) => setField(name, next)} />
+        ) : null
+      )}
+    </div>
+  );
+}
+
+type FieldProps = {
+  label: string;
+  schema: PropSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  // List items keep empty values, so clearing an item's text doesn't delete the item
+  keepEmpty?: boolean;
+};
+
+function Field({ label, schema, value, onChange, keepEmpty = false }: FieldProps) {
+  const id = useId();
+  const required = schema.required || keepEmpty;
+  const caption = (
+    <>
+      {label}
+      {schema.required && <span aria-hidden="true"> *</span>}
+    </>
+  );
+
+  switch (schema.kind) {
+    case 'boolean':
+      return (
+        <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: vars.space.sm }}>
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked ? true : required ? false : undefined)}
+          />
+          {caption}
+        </label>
+      );
+
+    case 'string':
+      return (
+        <div>
+          <label htmlFor={id} style={labelStyle}>{caption}</label>
+          {schema.enum ? (
+            <select
+              id={id}
+              value={typeof value === 'string' ? value : ''}
+              onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+              style={inputStyle}
+            >
+              {!required && <option value="">(default)</option>}
+              {schema.enum.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              id={id}
+              type="text"
+              required={required}
+              value={typeof value === 'string' ? value : ''}
+              onChange={(e) => onChange(e.target.value === '' && !required ? undefined : e.target.value)}
+              style={inputStyle}
+            />
+          )}
+        </div>
+      );
+
+    case 'number':
+      return (
+        <div>
+          <label htmlFor={id} style={labelStyle}>{caption}</label>
+          <input
+            id={id}
+            type="number"
+            required={required}
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => {
+              const next = e.target.valueAsNumber;
+              onChange(isNaN(next) ? (required ? defaultValue(schema) : undefined) : next);
+            }}
+            style={inputStyle}
+          />
+        </div>
+      );
+
+    case 'object':
+      return (
+        <fieldset style={fieldsetStyle}>
+          <legend style={labelStyle}>{caption}</legend>
+          <SchemaForm
+            fields={schema.fields}
+            value={isPlainObject(value) ? value : {}}
+            onChange={(next) => onChange(Object.keys(next).length === 0 && !required ? undefined : next)}
+          />
+        </fieldset>
+      );
+
+    case 'array':
+      return <ArrayField label={label} caption={caption} schema={schema} value={value} onChange={onChange} />;
+
+    case 'blocks':
+      return null;
+  }
+}
+
+type ArrayFieldProps = FieldProps & {
+  schema: Extract<PropSchema, { kind: 'array' }>;
+  caption: ReactNode;
+};
+
+function ArrayField({ label, caption, schema, value, onChange }: ArrayFieldProps) {
+  const items = Array.isArray(value) ? value : [];
+  const update = (next: unknown[]) => onChange(next.length === 0 && !schema.required ? undefined : next);
+  const item = schema.of;
+
+  // A fixed set of options: one checkbox each, kept in the schema's order
+  if (item.kind === 'string' && item.enum) {
+    const options = item.enum;
+    return (
+      <fieldset style={fieldsetStyle}>
+        <legend style={labelStyle}>{caption}</legend>
+        {options.map((option) => (
+          <label key={option} style={{ marginRight: vars.space.md, fontSize: vars.font.sizeSm }}>
+            <input
+              type="checkbox"
+              checked={items.includes(option)}
+              onChange={(e) => update(options.filter((o) => (o === option ? e.target.checked : items.includes(o))))}
+            />{' '}
+            {option}
+          </label>
+        ))}
+      </fieldset>
+    );
+  }
+
+  return (
+    <fieldset style={fieldsetStyle}>
+      <legend style={labelStyle}>{caption}</legend>
+      <ol style={{ listStyle: 'none', margin: 0, padding: 0, display: 'grid', gap: vars.space.sm }}>
+        {items.map((entry, i) => (
+          <li key={i} style={{ display: 'flex', alignItems: 'flex-end', gap: vars.space.sm }}>
+            <div style={{ flex: 1 }}>
+              <Field
+                label={`${label} ${i + 1}`}
+                schema={item}
+                value={entry}
+                onChange={(next) => update(items.map((old, j) => (j === i ? next : old)))}
+                keepEmpty
+              />
+            </div>
+            <button
+              type="button"
+              aria-label={`Remove ${label} ${i + 1}`}
+              onClick={() => update(items.filter((_, j) => j !== i))}
+              style={smallButtonStyle}
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ol>
+      <button
+        type="button"
+        aria-label={`Add to ${label}`}
+        onClick={() => update([...items, defaultValue(item)])}
+        style={{ ...smallButtonStyle, marginTop: vars.space.sm }}
+      >
+        Add
+      </button>
+    </fieldset>
+  );
+}
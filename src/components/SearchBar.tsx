@@ -1,6 +1,12 @@
 // src/components/SearchBar.tsx
 'use client';
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { Suspense, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { HistoryMode, Suggestion, SuggestionProvider } from '../types';
+import { addRecentSearch, clearRecentSearches, readRecentSearches } from '../lib/recentSearches';
+import UrlParamSync from './UrlParamSync';
+import styles from './SearchBar.module.css';
+import { vars } from '../lib/theme';
 
 type Props = {
   value?: string;
@@ -9,10 +15,22 @@ type Props = {
   debounceMs?: number;
   syncWithUrl?: boolean;
   urlParam?: string;
+  // "push" adds a history entry per settled search, so back/forward step through them
+  historyMode?: HistoryMode;
   'aria-label'?: string;
   id?: string;
+  // Typeahead source; keep the function stable (useCallback) to avoid refetching on every render
+  suggestions?: SuggestionProvider;
+  // Called when a suggestion is picked; may return the text to leave in the input
+  // (e.g. '' when the pick applied a filter instead of a search)
+  onSelect?: (suggestion: Suggestion) => string | void;
+  // Offer the last few submitted searches when the input is empty
+  recentSearches?: boolean;
+  recentSearchesKey?: string;
 };
 
+const MAX_SUGGESTIONS = 8;
+
 // Custom hook for debounced value
 function useDebounce<T>(value: T, delay: number): { value: T; hasChanged: boolean } {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -46,86 +64,184 @@ export default function SearchBar({
   debounceMs = 300,
   syncWithUrl = false,
   urlParam = 'search',
+  historyMode = 'replace',
   'aria-label': ariaLabel = 'Search input',
-  id = 'search-input'
+  id = 'search-input',
+  suggestions,
+  onSelect,
+  recentSearches = false,
+  recentSearchesKey = `recent-searches:${id}`
 }: Props) {
   const [inputValue, setInputValue] = useState(value);
-  const [isClient, setIsClient] = useState(false);
+  const [suggested, setSuggested] = useState<Suggestion[]>([]);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const isFirstRender = useRef(true);
   const debounced = useDebounce(inputValue, debounceMs);
 
-  // Handle SSR - only run client-side code after hydration
-  useEffect(() => {
-    setIsClient(true);
-  }, []);
+  const isCombobox = Boolean(suggestions) || recentSearches;
+  const query = inputValue.trim();
+  const showingRecent = recentSearches && !query;
+  const options = useMemo<Suggestion[]>(
+    () => (showingRecent ? recent.map((term) => ({ value: term })) : query ? suggested : []),
+    [showingRecent, recent, query, suggested]
+  );
+  const expanded = open && options.length > 0;
+  const listboxId = `${id}-listbox`;
+  const optionId = (index: number) => `${id}-option-${index}`;
 
-  // Update input value when value prop changes
+  // Update input value when value prop changes (not on mount, where it may
+  // already have been replaced by the URL value)
+  const lastValueProp = useRef(value);
   useEffect(() => {
+    if (value === lastValueProp.current) return;
+    lastValueProp.current = value;
     setInputValue(value);
   }, [value]);
 
-  // Initialize from URL on mount if syncWithUrl is enabled
+  // Notify parent of debounced value changes (skip initial render)
+  // Keyed on the value rather than the result object, so unrelated re-renders
+  // (e.g. following navigation) don't resend a stale value
+  const { value: debouncedValue, hasChanged } = debounced;
   useEffect(() => {
-    if (isClient && syncWithUrl && typeof window !== 'undefined' && window.location) {
-      try {
-        const urlParams = new URLSearchParams(window.location.search);
-        const urlSearchValue = urlParams.get(urlParam) || '';
-        if (urlSearchValue && urlSearchValue !== inputValue) {
-          setInputValue(urlSearchValue);
-        }
-      } catch {
-        // Silently fail in test environment
-      }
+    if (onChange && !isFirstRender.current && hasChanged) {
+      onChange(debouncedValue);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isClient, syncWithUrl, urlParam]); // Only run on mount and when sync settings change
+    isFirstRender.current = false;
+  }, [debouncedValue, hasChanged, onChange]);
 
-  // Notify parent of debounced value changes (skip initial render)
+  // The URL changed under us (first load, back/forward): show it and apply it right away
+  const inputRef = useRef(inputValue);
+  inputRef.current = inputValue;
+  const handleNavigate = useCallback((urlValue: string) => {
+    if (urlValue === inputRef.current) return;
+    setInputValue(urlValue);
+    onChange?.(urlValue);
+  }, [onChange]);
+
+  // Recent searches live in localStorage, which only exists after hydration
   useEffect(() => {
-    if (onChange && !isFirstRender.current && debounced.hasChanged) {
-      onChange(debounced.value);
+    if (recentSearches) {
+      setRecent(readRecentSearches(recentSearchesKey));
     }
-    isFirstRender.current = false;
-  }, [debounced, onChange]);
+  }, [recentSearches, recentSearchesKey]);
 
-  // Update URL when debounced value changes
+  // Ask for suggestions on every keystroke; aborting the previous request means a slow
+  // answer for an old query can never replace the one for the current query
   useEffect(() => {
-    if (isClient && syncWithUrl && typeof window !== 'undefined' && window.location) {
-      try {
-        const url = new URL(window.location.href);
-        if (debounced.value.trim()) {
-          url.searchParams.set(urlParam, debounced.value);
-        } else {
-          url.searchParams.delete(urlParam);
-        }
-        
-        // Update URL without page reload
-        window.history.replaceState({}, '', url.toString());
-      } catch {
-        // Silently fail in test environment
+    if (!suggestions || !query) {
+      setSuggested([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const accept = (result: Suggestion[]) => {
+      if (!controller.signal.aborted) setSuggested(result.slice(0, MAX_SUGGESTIONS));
+    };
+    try {
+      const result = suggestions(query, controller.signal);
+      if (Array.isArray(result)) {
+        accept(result);
+      } else {
+        result.then(accept, () => accept([]));
       }
+    } catch {
+      accept([]);
+    }
+    return () => controller.abort();
+  }, [suggestions, query]);
+
+  const rememberSearch = useCallback((term: string) => {
+    if (recentSearches) {
+      setRecent(addRecentSearch(recentSearchesKey, term));
     }
-  }, [isClient, debounced, syncWithUrl, urlParam]);
+  }, [recentSearches, recentSearchesKey]);
+
+  const close = useCallback(() => {
+    setOpen(false);
+    setActiveIndex(-1);
+  }, []);
+
+  // A picked suggestion applies right away instead of waiting for the debounce
+  const selectOption = useCallback((option: Suggestion) => {
+    const text = onSelect?.(option) ?? option.value;
+    setInputValue(text);
+    onChange?.(text);
+    rememberSearch(text);
+    close();
+  }, [onSelect, onChange, rememberSearch, close]);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     setInputValue(newValue);
+    setOpen(true);
+    setActiveIndex(-1);
   }, []);
 
   const handleClear = useCallback(() => {
     setInputValue('');
   }, []);
 
+  const handleClearRecent = useCallback(() => {
+    clearRecentSearches(recentSearchesKey);
+    setRecent([]);
+  }, [recentSearchesKey]);
+
+  // WAI-ARIA combobox keys: arrows move through the list, Enter picks, Escape closes
+  const handleKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
+    if (!isCombobox) return;
+    const count = options.length;
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (count === 0) return;
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setOpen(true);
+        setActiveIndex((index) => (!expanded || index < 0 ? (step === 1 ? 0 : count - 1) : (index + step + count) % count));
+        break;
+      }
+      case 'Enter': {
+        const option = expanded && activeIndex >= 0 ? options[activeIndex] : undefined;
+        if (option) {
+          e.preventDefault();
+          selectOption(option);
+        } else {
+          rememberSearch(inputValue);
+          close();
+        }
+        break;
+      }
+      case 'Escape':
+        if (expanded) {
+          e.preventDefault();
+          close();
+        }
+        break;
+    }
+  }, [isCombobox, options, expanded, activeIndex, inputValue, selectOption, rememberSearch, close]);
+
   return (
     <div style={{ position: 'relative', display: 'block', width: '100%' }}>
+      {syncWithUrl && (
+        <Suspense fallback={null}>
+          <UrlParamSync
+            name={urlParam}
+            value={debounced.value}
+            historyMode={historyMode}
+            onNavigate={handleNavigate}
+          />
+        </Suspense>
+      )}
       <label 
         htmlFor={id}
         style={{ 
           display: 'block', 
-          marginBottom: '0.25rem', 
-          fontSize: '0.875rem', 
-          fontWeight: '500',
-          color: '#374151'
+          marginBottom: vars.space.xs, 
+          fontSize: vars.font.sizeSm, 
+          fontWeight: vars.font.weightMedium,
+          color: vars.color.textSecondary
         }}
       >
         {ariaLabel}
@@ -137,28 +253,19 @@ export default function SearchBar({
           type="text"
           value={inputValue}
           onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
           aria-label={ariaLabel}
           aria-describedby={inputValue ? `${id}-clear` : undefined}
-          style={{
-            width: '100%',
-            padding: '0.75rem 2.5rem 0.75rem 0.75rem',
-            border: '1px solid #d1d5db',
-            borderRadius: '6px',
-            fontSize: '1rem',
-            backgroundColor: '#ffffff',
-            transition: 'border-color 0.2s ease-in-out, box-shadow 0.2s ease-in-out',
-            outline: 'none',
-            boxSizing: 'border-box'
-          }}
-          onFocus={(e) => {
-            e.target.style.borderColor = '#3b82f6';
-            e.target.style.boxShadow = '0 0 0 3px rgba(59, 130, 246, 0.1)';
-          }}
-          onBlur={(e) => {
-            e.target.style.borderColor = '#d1d5db';
-            e.target.style.boxShadow = 'none';
-          }}
+          role={isCombobox ? 'combobox' : undefined}
+          aria-autocomplete={isCombobox ? 'list' : undefined}
+          aria-expanded={isCombobox ? expanded : undefined}
+          aria-controls={isCombobox ? listboxId : undefined}
+          aria-activedescendant={expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          autoComplete={isCombobox ? 'off' : undefined}
+          className={styles.input}
+          onFocus={() => setOpen(true)}
+          onBlur={close}
         />
         
         {inputValue && (
@@ -167,44 +274,94 @@ export default function SearchBar({
             type="button"
             onClick={handleClear}
             aria-label="Clear search"
+            className={styles.clear}
+          >
+            ×
+          </button>
+        )}
+
+        {/* Options take no focus (mousedown is cancelled), so the input stays the focus owner */}
+        {expanded && (
+          <div
             style={{
               position: 'absolute',
-              right: '0.5rem',
-              top: '50%',
-              transform: 'translateY(-50%)',
-              background: 'none',
-              border: 'none',
-              cursor: 'pointer',
-              padding: '0.25rem',
-              borderRadius: '4px',
-              color: '#6b7280',
-              fontSize: '1.25rem',
-              lineHeight: 1,
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              transition: 'color 0.2s ease-in-out, background-color 0.2s ease-in-out'
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.color = '#374151';
-              e.currentTarget.style.backgroundColor = '#f3f4f6';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.color = '#6b7280';
-              e.currentTarget.style.backgroundColor = 'transparent';
+              top: 'calc(100% + 0.25rem)',
+              left: 0,
+              right: 0,
+              zIndex: 10,
+              backgroundColor: vars.color.surface,
+              border: `1px solid ${vars.color.borderStrong}`,
+              borderRadius: vars.radius.md,
+              boxShadow: vars.shadow.popover,
+              overflow: 'hidden'
             }}
+            onMouseDown={(e) => e.preventDefault()}
           >
-            ×
-          </button>
+            <ul
+              id={listboxId}
+              role="listbox"
+              aria-label={showingRecent ? 'Recent searches' : 'Suggestions'}
+              style={{ listStyle: 'none', margin: 0, padding: '0.25rem 0' }}
+            >
+              {options.map((option, index) => (
+                <li
+                  key={`${option.description ?? ''}:${option.value}`}
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onClick={() => selectOption(option)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    gap: vars.space.md,
+                    padding: '0.5rem 0.75rem',
+                    cursor: 'pointer',
+                    fontSize: '0.9375rem',
+                    color: vars.color.textStrong,
+                    backgroundColor: index === activeIndex ? vars.color.primarySubtle : 'transparent'
+                  }}
+                >
+                  <span>
+                    {showingRecent && <span aria-hidden="true">🕘 </span>}
+                    {option.value}
+                  </span>
+                  {option.description && (
+                    <span style={{ fontSize: vars.font.sizeXs, color: vars.color.textMuted }}>{option.description}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {showingRecent && (
+              <button
+                type="button"
+                onClick={handleClearRecent}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  padding: '0.5rem 0.75rem',
+                  border: 'none',
+                  borderTop: `1px solid ${vars.color.border}`,
+                  background: 'none',
+                  color: vars.color.primary,
+                  fontSize: '0.8125rem',
+                  textAlign: 'left',
+                  cursor: 'pointer'
+                }}
+              >
+                Clear recent searches
+              </button>
+            )}
+          </div>
         )}
       </div>
       
       {debounceMs > 0 && (
         <div 
           style={{ 
-            fontSize: '0.75rem', 
-            color: '#6b7280', 
-            marginTop: '0.25rem',
+            fontSize: vars.font.sizeXs, 
+            color: vars.color.textMuted, 
+            marginTop: vars.space.xs,
             minHeight: '1rem'
           }}
         >
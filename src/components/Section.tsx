@@ -0,0 +1,63 @@
+import type { ReactNode } from "react";
+import { vars } from "../lib/theme";
+
+type Props = {
+  title?: string;
+  as?: "section" | "main";
+  variant?: "plain" | "card";
+  children?: ReactNode;
+};
+
+const mainStyles = {
+  flex: 1,
+  width: '100%',
+  maxWidth: '1200px',
+  margin: '0 auto',
+  padding: 'clamp(1rem, 4vw, 2rem) clamp(0.5rem, 2vw, 1rem)',
+  lineHeight: vars.font.lineHeight,
+  boxSizing: 'border-box' as const
+};
+
+const variantStyles = {
+  plain: {
+    marginBottom: vars.space.xl
+  },
+  card: {
+    backgroundColor: vars.color.surface,
+    borderRadius: vars.radius.xxl,
+    padding: 'clamp(1.5rem, 4vw, 2.5rem)',
+    boxShadow: vars.shadow.lg,
+    border: `1px solid ${vars.color.border}`,
+    marginBottom: vars.space.xxl
+  }
+};
+
+export default function Section({ title, as: Tag = "section", variant = "plain", children }: Props) {
+  return (
+    <Tag aria-label={title} style={Tag === "main" ? mainStyles : variantStyles[variant]}>
+      {title && (
+        <h2 style={{
+          fontSize: 'clamp(1.5rem, 4vw, 2rem)',
+          fontWeight: vars.font.weightBold,
+          color: vars.color.text,
+          marginBottom: vars.space.lg,
+          textAlign: 'center',
+          position: 'relative',
+          letterSpacing: '-0.025em'
+        }}>
+          {title}
+          {variant === "card" && (
+            <div style={{
+              width: '80px',
+              height: '4px',
+              background: vars.gradient.accentBar,
+              margin: '0.75rem auto 0',
+              borderRadius: vars.radius.xs
+            }} />
+          )}
+        </h2>
+      )}
+      {children}
+    </Tag>
+  );
+}
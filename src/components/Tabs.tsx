@@ -0,0 +1,87 @@
+// src/components/Tabs.tsx
+'use client';
+import { Children, useCallback, useId, useRef, useState } from 'react';
+import type { KeyboardEvent, ReactNode } from 'react';
+import { vars } from '../lib/theme';
+
+type Props = {
+  labels: string[];
+  children?: ReactNode;
+};
+
+export default function Tabs({ labels, children }: Props) {
+  const panels = Children.toArray(children);
+  const [active, setActive] = useState(0);
+  const tabRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const baseId = useId();
+
+  const focusTab = useCallback((index: number) => {
+    setActive(index);
+    tabRefs.current[index]?.focus();
+  }, []);
+
+  // Arrow keys move between tabs, Home/End jump to the ends
+  const handleKeyDown = useCallback((e: KeyboardEvent<HTMLButtonElement>) => {
+    const last = panels.length - 1;
+    const moves: Record<string, number> = {
+      ArrowRight: active === last ? 0 : active + 1,
+      ArrowLeft: active === 0 ? last : active - 1,
+      Home: 0,
+      End: last,
+    };
+    const next = moves[e.key];
+    if (next !== undefined) {
+      e.preventDefault();
+      focusTab(next);
+    }
+  }, [active, panels.length, focusTab]);
+
+  return (
+    <div style={{ marginBottom: vars.space.xl }}>
+      <div
+        role="tablist"
+        style={{ display: 'flex', gap: vars.space.sm, borderBottom: `2px solid ${vars.color.border}`, marginBottom: vars.space.lg }}
+      >
+        {panels.map((_, i) => (
+          <button
+            key={i}
+            ref={(el) => { tabRefs.current[i] = el; }}
+            id={`${baseId}-tab-${i}`}
+            type="button"
+            role="tab"
+            aria-selected={i === active}
+            aria-controls={`${baseId}-panel-${i}`}
+            tabIndex={i === active ? 0 : -1}
+            onClick={() => setActive(i)}
+            onKeyDown={handleKeyDown}
+            style={{
+              padding: '0.75rem 1.25rem',
+              border: 'none',
+              borderBottom: i === active ? `2px solid ${vars.color.primary}` : '2px solid transparent',
+              marginBottom: '-2px',
+              background: 'none',
+              color: i === active ? vars.color.primaryStrong : vars.color.textMuted,
+              fontWeight: vars.font.weightSemibold,
+              fontSize: vars.font.sizeMd,
+              cursor: 'pointer'
+            }}
+          >
+            {labels[i] ?? `Tab ${i + 1}`}
+          </button>
+        ))}
+      </div>
+      {/* Inactive panels stay mounted so their state survives tab switches */}
+      {panels.map((panel, i) => (
+        <div
+          key={i}
+          id={`${baseId}-panel-${i}`}
+          role="tabpanel"
+          aria-labelledby={`${baseId}-tab-${i}`}
+          hidden={i !== active}
+        >
+          {panel}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+// src/components/ThemeProvider.tsx
+import type { CSSProperties, ReactNode } from 'react';
+import { resolveTheme, themeCssVars, vars } from '../lib/theme';
+import type { ThemeName, ThemeOverrides } from '../lib/theme';
+
+type Props = {
+  theme?: ThemeName;
+  overrides?: ThemeOverrides;
+  style?: CSSProperties;
+  children: ReactNode;
+};
+
+// Sets every token as a custom property on a wrapper, so it works in server components too
+export default function ThemeProvider({ theme = 'light', overrides, style, children }: Props) {
+  return (
+    <div
+      data-theme={theme}
+      style={{
+        ...themeCssVars(resolveTheme(theme, overrides)),
+        color: vars.color.text,
+        backgroundColor: vars.color.background,
+        fontFamily: vars.font.family,
+        ...style,
+      } as CSSProperties}
+    >
+      {children}
+    </div>
+  );
+}
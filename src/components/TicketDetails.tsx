@@ -0,0 +1,66 @@
+// src/components/TicketDetails.tsx
+import type { ReactNode } from 'react';
+import type { Ticket } from '../types';
+import { vars } from '../lib/theme';
+
+// Ticket display pieces shared by TicketList rows and the PricePanel block
+
+// Currency formatter
+export const formatPrice = (price: number, currency: string) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency,
+  }).format(price);
+};
+
+// Event times are shown in the venue's zone (UTC when unknown), so server and browser agree
+export const formatEventDate = (date: Date, timeZone = 'UTC') => {
+  return new Intl.DateTimeFormat('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  }).format(date);
+};
+
+// Date, place and seat on one line, skipping whatever the ticket doesn't have
+export default function TicketDetails({ ticket }: { ticket: Ticket }) {
+  // Inline page data may carry the date as a string
+  const startsAt = ticket.startsAt ? new Date(ticket.startsAt) : undefined;
+  const place = [ticket.venue, ticket.city].filter(Boolean).join(', ');
+  const seat = [ticket.section && `Section ${ticket.section}`, ticket.row && `Row ${ticket.row}`]
+    .filter(Boolean)
+    .join(', ');
+
+  const parts: ReactNode[] = [];
+  if (startsAt && !isNaN(startsAt.getTime())) {
+    parts.push(
+      <time key="date" dateTime={startsAt.toISOString()}>{formatEventDate(startsAt, ticket.timeZone)}</time>
+    );
+  }
+  if (place) parts.push(<span key="place">{place}</span>);
+  if (seat) parts.push(<span key="seat">{seat}</span>);
+  if (parts.length === 0) return null;
+
+  return (
+    <p style={{ margin: '0.25rem 0 0', fontSize: vars.font.sizeSm, color: vars.color.textMuted }}>
+      {parts.flatMap((part, i) => (i === 0 ? [part] : [' · ', part]))}
+    </p>
+  );
+}
+
+export function Availability({ quantity }: { quantity: number }) {
+  const [label, color] =
+    quantity === 0 ? ['Sold out', vars.color.danger] :
+    quantity <= 10 ? [`Only ${quantity} left`, vars.color.caution] :
+    [`${quantity} available`, vars.color.textMuted];
+  return (
+    <span style={{ display: 'block', marginTop: '0.375rem', fontSize: '0.8125rem', fontWeight: vars.font.weightMedium, color }}>
+      {label}
+    </span>
+  );
+}
@@ -1,48 +1,309 @@
 // src/components/TicketList.tsx
 'use client';
-import { useMemo, useState, useCallback } from 'react';
-import type { Ticket } from '../types';
+import { useMemo, useState, useCallback, useEffect, useRef } from 'react';
+import type { Currency, Suggestion, Ticket, TicketDataRef, TicketListDisplay } from '../types';
+import { convertPrice, defaultRateProvider, resolveDisplayCurrency } from '../lib/exchangeRates';
+import type { ExchangeRateProvider } from '../lib/exchangeRates';
+import { clampPage, countPages, DEFAULT_PAGE_SIZE } from '../lib/pagination';
+import { readUrlParam, writeUrlParams } from '../lib/urlState';
+import {
+  applyTicketFilters,
+  countBy,
+  hasActiveFilters,
+  matchesFilters,
+  priceBounds,
+} from '../lib/ticketFilters';
+import type { TicketFacet, TicketFilters } from '../lib/ticketFilters';
+import { foldText } from '../lib/search';
+import type { MatchRange } from '../lib/search';
+import {
+  createTicketSearchIndex,
+  defaultTicketView,
+  searchTickets,
+  sortTickets,
+  ticketViewFromParams,
+  ticketViewToParams,
+} from '../lib/ticketView';
+import type { TicketSort, TicketView } from '../lib/ticketView';
 import SearchBar from './SearchBar';
+import Pagination from './Pagination';
+import VirtualList from './VirtualList';
+import FacetPanel from './FacetPanel';
+import Highlight from './Highlight';
+import TicketDetails, { Availability, formatPrice } from './TicketDetails';
+import { eventHref } from '../lib/eventPage';
+import { vars } from '../lib/theme';
+import styles from './TicketList.module.css';
 
+// `source`/`query` are resolved to `tickets` on the server (see resolveTicketData);
+// a block that was never resolved renders as an empty list
 type Props = {
-  tickets: Ticket[];
+  tickets?: Ticket[];
+  // Injected by tests or client wrappers; defaults to the static rate table
+  rateProvider?: ExchangeRateProvider;
+  // Set by the page route from the query string, so the server HTML already
+  // shows the searched, filtered and sorted list; read once, on mount
+  initialView?: TicketView;
+} & Partial<TicketDataRef> & TicketListDisplay;
+
+const controlLabelStyle = {
+  display: 'block',
+  marginBottom: vars.space.xs,
+  fontSize: vars.font.sizeSm,
+  fontWeight: vars.font.weightMedium,
+  color: vars.color.warningStrong
+};
+
+const selectStyle = {
+  width: '100%',
+  maxWidth: '300px',
+  padding: '0.75rem',
+  border: `1px solid ${vars.color.borderStrong}`,
+  borderRadius: vars.radius.md,
+  fontSize: vars.font.sizeMd,
+  backgroundColor: vars.color.surface,
+  cursor: 'pointer',
+  outline: 'none',
+  boxSizing: 'border-box' as const
 };
 
-type SortOption = 'price-asc' | 'price-desc' | 'title-asc';
-
-// Sort comparators map for O(1) dispatch
-const sortComparators = {
-  'price-asc': (a: Ticket, b: Ticket) => a.price - b.price,
-  'price-desc': (a: Ticket, b: Ticket) => b.price - a.price,
-  'title-asc': (a: Ticket, b: Ticket) => a.title.localeCompare(b.title),
-} as const;
-
-// Currency formatter
-const formatPrice = (price: number, currency: string) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-  }).format(price);
+type SummaryProps = {
+  ticket: Ticket;
+  displayCurrency: Currency;
+  converted?: number;
+  highlights?: MatchRange[];
 };
 
-export default function TicketList({ tickets }: Props) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sort, setSort] = useState<SortOption>('price-asc');
+function TicketSummary({ ticket, displayCurrency, converted, highlights }: SummaryProps) {
+  const showConverted = converted !== undefined && ticket.currency !== displayCurrency;
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: vars.space.md }}>
+      <div>
+        <strong style={{ fontSize: vars.font.sizeLg, color: vars.color.textStrong }}>
+          <a href={eventHref(ticket.id)} style={{ color: 'inherit', textDecoration: 'none' }}>
+            <Highlight text={ticket.title} ranges={highlights} />
+          </a>
+        </strong>
+        {ticket.category && (
+          <span style={{
+            marginLeft: '0.5rem',
+            padding: '0.125rem 0.5rem',
+            borderRadius: vars.radius.full,
+            backgroundColor: vars.color.badge,
+            color: vars.color.badgeText,
+            fontSize: vars.font.sizeXs,
+            fontWeight: vars.font.weightMedium,
+            verticalAlign: 'middle'
+          }}>
+            {ticket.category}
+          </span>
+        )}
+        <TicketDetails ticket={ticket} />
+      </div>
+      <div style={{ textAlign: 'right', flexShrink: 0 }}>
+        <span style={{ 
+          fontSize: vars.font.sizeXl, 
+          fontWeight: vars.font.weightSemibold, 
+          color: vars.color.success,
+          backgroundColor: vars.color.successSubtle,
+          padding: '0.25rem 0.75rem',
+          borderRadius: vars.radius.md,
+          border: `1px solid ${vars.color.successBorder}`
+        }}>
+          {formatPrice(ticket.price, ticket.currency)}
+        </span>
+        {showConverted && (
+          <span style={{ display: 'block', marginTop: '0.375rem', fontSize: '0.8125rem', color: vars.color.textMuted }}>
+            ≈ {formatPrice(converted, displayCurrency)}
+          </span>
+        )}
+        {ticket.quantityAvailable !== undefined && <Availability quantity={ticket.quantityAvailable} />}
+      </div>
+    </div>
+  );
+}
+
+// Stable reference so VirtualList doesn't recompute offsets on every render
+const ticketKey = (ticket: Ticket) => ticket.id;
+
+const MAX_CATEGORY_SUGGESTIONS = 3;
+const MAX_TITLE_SUGGESTIONS = 5;
+
+export default function TicketList({
+  tickets = [],
+  pageSize = DEFAULT_PAGE_SIZE,
+  mode = 'all',
+  displayCurrency: initialCurrency = 'USD',
+  rateProvider = defaultRateProvider,
+  initialView,
+}: Props) {
+  const size = pageSize > 0 ? Math.floor(pageSize) : DEFAULT_PAGE_SIZE;
+  const currencyOptions = useMemo(() => rateProvider.currencies(), [rateProvider]);
+  // The selector can only offer currencies with rates, so neither `?display=` nor the prop may pick another
+  const defaultCurrency = resolveDisplayCurrency(undefined, initialCurrency, rateProvider);
+  const supportedCurrency = (currency: Currency | undefined) =>
+    resolveDisplayCurrency(currency, defaultCurrency, rateProvider);
+
+  const [initial] = useState(initialView ?? defaultTicketView);
+  const [searchTerm, setSearchTerm] = useState(initial.search);
+  const [sort, setSort] = useState<TicketSort>(initial.sort);
+  const [displayCurrency, setDisplayCurrency] = useState<Currency>(supportedCurrency(initial.displayCurrency));
+  const [filters, setFilters] = useState<TicketFilters>(initial.filters);
+  const [page, setPage] = useState(initial.page);
+  const [visibleCount, setVisibleCount] = useState(size);
+  const [urlReady, setUrlReady] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Restore the view from the URL after hydration (a no-op when the page route
+  // already passed it in), together with the search it was applied to, so
+  // SearchBar's own URL restore doesn't count as a new search
+  const filterKey = JSON.stringify([searchTerm, sort, displayCurrency, filters]);
+  const lastFilterKey = useRef(filterKey);
+  useEffect(() => {
+    const view = ticketViewFromParams(readUrlParam);
+    const urlCurrency = supportedCurrency(view.displayCurrency);
+    lastFilterKey.current = JSON.stringify([view.search, view.sort, urlCurrency, view.filters]);
+    setSearchTerm(view.search);
+    setSort(view.sort);
+    setDisplayCurrency(urlCurrency);
+    setFilters(view.filters);
+    if (mode === 'paged') {
+      setPage(view.page);
+    }
+    setUrlReady(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode]);
+
+  // Start over from the first page whenever the search, sort, filters or display currency change
+  useEffect(() => {
+    if (lastFilterKey.current === filterKey) return;
+    lastFilterKey.current = filterKey;
+    setPage(1);
+    setVisibleCount(size);
+  }, [filterKey, size]);
+
+  const convertedPrices = useMemo(() => {
+    const prices = new Map<string, number | undefined>();
+    for (const ticket of tickets) {
+      prices.set(ticket.id, convertPrice(ticket.price, ticket.currency, displayCurrency, rateProvider));
+    }
+    return prices;
+  }, [tickets, displayCurrency, rateProvider]);
+
+  const priceOf = useCallback((ticket: Ticket) => convertedPrices.get(ticket.id), [convertedPrices]);
+
+  // Titles are tokenized once per ticket list, not on every keystroke
+  const searchIndex = useMemo(() => createTicketSearchIndex(tickets), [tickets]);
+
+  // Fuzzy, accent-insensitive match on the title words, best match first
+  const { tickets: searchedTickets, highlights } = useMemo(
+    () => searchTickets(searchIndex, tickets, searchTerm),
+    [searchIndex, tickets, searchTerm]
+  );
+
+  // Typeahead: categories whose name starts with the query, then the best matching titles
+  const categoryNames = useMemo(() => countBy(tickets, ticket => ticket.category).map(({ value }) => value), [tickets]);
+
+  const suggestTickets = useCallback((query: string): Suggestion[] => {
+    const folded = foldText(query);
+    const categories = categoryNames
+      .filter(category => foldText(category).startsWith(folded))
+      .slice(0, MAX_CATEGORY_SUGGESTIONS)
+      .map(value => ({ value, description: 'Category', kind: 'category' }));
+    const titles = [...new Set(searchIndex.search(query).map(hit => hit.item.title))]
+      .slice(0, MAX_TITLE_SUGGESTIONS)
+      .map(value => ({ value, description: 'Event' }));
+    return [...categories, ...titles];
+  }, [categoryNames, searchIndex]);
+
+  // Picking a category filters by it rather than searching titles for its name
+  const handleSuggestionSelect = useCallback((suggestion: Suggestion) => {
+    if (suggestion.kind !== 'category') return;
+    setFilters(current => ({ ...current, categories: [suggestion.value] }));
+    return '';
+  }, []);
 
   const filteredAndSortedTickets = useMemo(() => {
-    // Compute search term once
-    const normalizedSearchTerm = searchTerm.toLowerCase();
-    
-    // Filter by search term (case-insensitive contains on title)
-    const filtered = normalizedSearchTerm
-      ? tickets.filter(ticket =>
-          ticket.title.toLowerCase().includes(normalizedSearchTerm)
-        )
-      : tickets;
+    // Facets narrow the search results further
+    const filtered = applyTicketFilters(searchedTickets, filters, priceOf);
 
     // Sort the filtered results (copy before sort for safety)
-    return [...filtered].sort(sortComparators[sort]);
-  }, [tickets, searchTerm, sort]);
+    return sortTickets(filtered, sort, priceOf);
+  }, [searchedTickets, filters, sort, priceOf]);
+
+  // Each facet counts the tickets matching everything except itself
+  const facets = useMemo(() => {
+    const matching = (skip: TicketFacet) =>
+      searchedTickets.filter(ticket => matchesFilters(ticket, filters, priceOf, skip));
+    return {
+      categories: countBy(matching('category'), ticket => ticket.category),
+      currencies: countBy(matching('currency'), ticket => ticket.currency),
+      // Bounds come from every ticket so the slider doesn't shift while filtering
+      priceRange: priceBounds(tickets, priceOf),
+      hasDates: tickets.some(ticket => ticket.startsAt),
+    };
+  }, [tickets, searchedTickets, filters, priceOf]);
+
+  // Price limits are in the display currency, so they don't survive a switch
+  const handleDisplayCurrencyChange = useCallback((currency: Currency) => {
+    setDisplayCurrency(currency);
+    setFilters(({ minPrice, maxPrice, ...rest }) => rest);
+  }, []);
+
+  const renderVirtualTicket = useCallback((ticket: Ticket) => (
+    <div className={styles.card}>
+      <TicketSummary
+        ticket={ticket}
+        displayCurrency={displayCurrency}
+        converted={convertedPrices.get(ticket.id)}
+        highlights={highlights.get(ticket.id)}
+      />
+    </div>
+  ), [displayCurrency, convertedPrices, highlights]);
+
+  const total = filteredAndSortedTickets.length;
+  const pageCount = countPages(total, size);
+  const currentPage = clampPage(page, pageCount);
+
+  const visibleTickets = useMemo(() => {
+    if (mode === 'paged') {
+      return filteredAndSortedTickets.slice((currentPage - 1) * size, currentPage * size);
+    }
+    if (mode === 'infinite') {
+      return filteredAndSortedTickets.slice(0, visibleCount);
+    }
+    return filteredAndSortedTickets;
+  }, [filteredAndSortedTickets, mode, currentPage, size, visibleCount]);
+
+  const hasMore = mode === 'infinite' && visibleCount < total;
+
+  // Keep the rest of the view in the URL the same way SearchBar keeps ?search=,
+  // so a filtered view can be shared as a link and rendered on the server
+  useEffect(() => {
+    if (urlReady) {
+      writeUrlParams(ticketViewToParams({
+        sort,
+        filters,
+        displayCurrency: displayCurrency !== defaultCurrency ? displayCurrency : undefined,
+        page: mode === 'paged' ? currentPage : 1,
+      }));
+    }
+  }, [urlReady, sort, filters, displayCurrency, defaultCurrency, mode, currentPage]);
+
+  // Load the next batch when the sentinel below the list scrolls into view.
+  // Re-observing after each batch re-checks a sentinel that is still visible.
+  useEffect(() => {
+    const target = sentinelRef.current;
+    if (!hasMore || !target || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setVisibleCount((count) => count + size);
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasMore, size, visibleCount]);
 
   const handleSearchChange = useCallback((value: string) => {
     setSearchTerm(value);
@@ -52,19 +313,20 @@ export default function TicketList({ tickets }: Props) {
     <div>
       {/* MAJOR FIX: Controls now properly separated and responsive */}
       <div style={{ 
-        marginBottom: '2rem',
+        marginBottom: vars.space.xl,
         display: 'block'
       }}>
         {/* Search Section */}
         <div style={{
-          marginBottom: '1.5rem',
-          padding: '1rem',
-          backgroundColor: '#f0f9ff',
-          borderRadius: '8px',
-          border: '2px solid #0ea5e9'
+          marginBottom: vars.space.lg,
+          padding: vars.space.md,
+          backgroundColor: vars.color.infoSubtle,
+          borderRadius: vars.radius.lg,
+          border: `2px solid ${vars.color.info}`
         }}>
-          <h3 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem', color: '#0369a1' }}>🔍 Search Events</h3>
+          <h3 style={{ margin: '0 0 0.5rem 0', fontSize: vars.font.sizeMd, color: vars.color.infoStrong }}>🔍 Search Events</h3>
           <SearchBar
+            value={initial.search}
             onChange={handleSearchChange}
             placeholder="Search tickets by title..."
             debounceMs={300}
@@ -72,105 +334,151 @@ export default function TicketList({ tickets }: Props) {
             urlParam="search"
             aria-label="Search tickets"
             id="ticket-search"
+            suggestions={suggestTickets}
+            onSelect={handleSuggestionSelect}
+            recentSearches={true}
           />
         </div>
         
         {/* Sort Section */}
         <div style={{
-          padding: '1rem',
-          backgroundColor: '#fef3c7',
-          borderRadius: '8px',
-          border: '2px solid #f59e0b'
+          padding: vars.space.md,
+          backgroundColor: vars.color.warningSubtle,
+          borderRadius: vars.radius.lg,
+          border: `2px solid ${vars.color.warning}`
         }}>
-          <h3 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem', color: '#92400e' }}>📊 Sort Options</h3>
-          <label 
-            htmlFor="sort-tickets"
-            style={{ 
-              display: 'block', 
-              marginBottom: '0.25rem', 
-              fontSize: '0.875rem', 
-              fontWeight: '500',
-              color: '#92400e'
-            }}
-          >
-            Sort tickets
-          </label>
-          <select
-            id="sort-tickets"
-            value={sort}
-            onChange={(e) => setSort(e.target.value as SortOption)}
-            style={{ 
-              width: '100%',
-              maxWidth: '300px',
-              padding: '0.75rem', 
-              border: '1px solid #d1d5db', 
-              borderRadius: '6px',
-              fontSize: '1rem',
-              backgroundColor: '#ffffff',
-              cursor: 'pointer',
-              outline: 'none',
-              boxSizing: 'border-box'
-            }}
-          >
-            <option value="price-asc">Price: Low to High</option>
-            <option value="price-desc">Price: High to Low</option>
-            <option value="title-asc">Title: A to Z</option>
-          </select>
+          <h3 style={{ margin: '0 0 0.5rem 0', fontSize: vars.font.sizeMd, color: vars.color.warningStrong }}>📊 Sort Options</h3>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: vars.space.md }}>
+            <div style={{ flex: '1 1 200px' }}>
+              <label
+                htmlFor="sort-tickets"
+                style={controlLabelStyle}
+              >
+                Sort tickets
+              </label>
+              <select
+                id="sort-tickets"
+                value={sort}
+                onChange={(e) => setSort(e.target.value as TicketSort)}
+                style={selectStyle}
+              >
+                <option value="price-asc">Price: Low to High</option>
+                <option value="price-desc">Price: High to Low</option>
+                <option value="title-asc">Title: A to Z</option>
+                <option value="relevance">Best match</option>
+              </select>
+            </div>
+            <div style={{ flex: '1 1 200px' }}>
+              <label
+                htmlFor="display-currency"
+                style={controlLabelStyle}
+              >
+                Display in
+              </label>
+              <select
+                id="display-currency"
+                value={displayCurrency}
+                onChange={(e) => handleDisplayCurrencyChange(e.target.value as Currency)}
+                style={selectStyle}
+              >
+                {currencyOptions.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
         </div>
       </div>
 
+      {tickets.length > 0 && (
+        <FacetPanel
+          filters={filters}
+          onChange={setFilters}
+          categories={facets.categories}
+          currencies={facets.currencies}
+          priceRange={facets.priceRange}
+          displayCurrency={displayCurrency}
+          showDates={facets.hasDates}
+        />
+      )}
+
       {filteredAndSortedTickets.length === 0 ? (
         <div style={{ 
           textAlign: 'center', 
-          padding: '2rem', 
-          color: '#6b7280',
-          backgroundColor: '#f9fafb',
-          borderRadius: '8px',
-          border: '1px solid #e5e7eb'
+          padding: vars.space.xl, 
+          color: vars.color.textMuted,
+          backgroundColor: vars.color.surfaceMuted,
+          borderRadius: vars.radius.lg,
+          border: `1px solid ${vars.color.border}`
         }}>
-          <p style={{ margin: 0, fontSize: '1rem' }}>
-            {searchTerm ? `No tickets found matching "${searchTerm}"` : 'No tickets available'}
+          <p style={{ margin: 0, fontSize: vars.font.sizeMd }}>
+            {searchTerm
+              ? `No tickets found matching "${searchTerm}"`
+              : hasActiveFilters(filters) ? 'No tickets match the selected filters' : 'No tickets available'}
           </p>
         </div>
+      ) : mode === 'virtual' ? (
+        <VirtualList
+          items={filteredAndSortedTickets}
+          getKey={ticketKey}
+          renderItem={renderVirtualTicket}
+          estimatedItemHeight={72}
+          gap={12}
+          aria-label="Tickets"
+        />
       ) : (
         <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
-          {filteredAndSortedTickets.map((ticket) => (
-            <li
-              key={ticket.id}
-              style={{
-                padding: '1rem',
-                border: '1px solid #e5e7eb',
-                borderRadius: '8px',
-                marginBottom: '0.75rem',
-                backgroundColor: '#ffffff',
-                boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)',
-                transition: 'box-shadow 0.2s ease-in-out'
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.boxShadow = '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.boxShadow = '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)';
-              }}
-            >
-              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                <strong style={{ fontSize: '1.125rem', color: '#111827' }}>{ticket.title}</strong>
-                <span style={{ 
-                  fontSize: '1.25rem', 
-                  fontWeight: '600', 
-                  color: '#059669',
-                  backgroundColor: '#ecfdf5',
-                  padding: '0.25rem 0.75rem',
-                  borderRadius: '6px',
-                  border: '1px solid #d1fae5'
-                }}>
-                  {formatPrice(ticket.price, ticket.currency)}
-                </span>
-              </div>
+          {visibleTickets.map((ticket) => (
+            <li key={ticket.id} className={styles.card} style={{ marginBottom: '0.75rem' }}>
+              <TicketSummary
+                ticket={ticket}
+                displayCurrency={displayCurrency}
+                converted={convertedPrices.get(ticket.id)}
+                highlights={highlights.get(ticket.id)}
+              />
             </li>
           ))}
         </ul>
       )}
+
+      {(mode === 'paged' || mode === 'infinite') && total > 0 && (
+        <p aria-live="polite" style={{ margin: '1rem 0 0', fontSize: vars.font.sizeSm, color: vars.color.textMuted }}>
+          {mode === 'paged'
+            ? `Page ${currentPage} of ${pageCount} (${total} tickets)`
+            : `Showing ${visibleTickets.length} of ${total} tickets`}
+        </p>
+      )}
+
+      {mode === 'paged' && (
+        <Pagination
+          page={currentPage}
+          pageCount={pageCount}
+          onPageChange={setPage}
+          aria-label="Ticket pages"
+        />
+      )}
+
+      {/* The button covers keyboard users and browsers without IntersectionObserver */}
+      {hasMore && (
+        <div ref={sentinelRef} style={{ marginTop: vars.space.lg, textAlign: 'center' }}>
+          <button
+            type="button"
+            onClick={() => setVisibleCount((count) => count + size)}
+            style={{
+              padding: '0.75rem 1.5rem',
+              border: `1px solid ${vars.color.primary}`,
+              borderRadius: vars.radius.md,
+              backgroundColor: vars.color.surface,
+              color: vars.color.primary,
+              fontSize: vars.font.sizeMd,
+              fontWeight: vars.font.weightMedium,
+              cursor: 'pointer'
+            }}
+          >
+            Load more tickets
+          </button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
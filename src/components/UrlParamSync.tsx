@@ -0,0 +1,68 @@
+// src/components/UrlParamSync.tsx
+'use client';
+import { useEffect, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { HistoryMode } from '../types';
+
+type Props = {
+  name: string;
+  // The settled value to write; empty removes the param
+  value: string;
+  historyMode?: HistoryMode;
+  // Called when navigation (first load, back/forward, links) changes the param
+  onNavigate: (value: string) => void;
+};
+
+/**
+ * Two-way binding between a value and one query param through the App Router,
+ * so server components re-render with the new param. Renders nothing; render
+ * it inside <Suspense> because useSearchParams opts statically rendered pages
+ * out of prerendering up to the nearest boundary.
+ */
+export default function UrlParamSync({ name, value, historyMode = 'replace', onNavigate }: Props) {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const urlValue = searchParams?.get(name) ?? '';
+
+  // What the URL holds once our pending navigations land
+  const current = useRef<string | null>(null);
+  // Values we navigated to that the router hasn't reported back yet
+  const pending = useRef<string[]>([]);
+  const lastValue = useRef(value);
+
+  // The router re-renders with new search params on popstate, so this follows back/forward too
+  useEffect(() => {
+    const echo = pending.current.indexOf(urlValue);
+    if (echo >= 0) {
+      // Our own navigation arriving; newer ones may still be on their way
+      pending.current.splice(0, echo + 1);
+      return;
+    }
+    pending.current = [];
+    if (urlValue === current.current) return;
+    current.current = urlValue;
+    onNavigate(urlValue);
+  }, [urlValue, onNavigate]);
+
+  useEffect(() => {
+    if (value === lastValue.current) return;
+    lastValue.current = value;
+
+    const next = value.trim() ? value : '';
+    if (next === current.current) return;
+    current.current = next;
+    pending.current.push(next);
+
+    const params = new URLSearchParams(searchParams?.toString());
+    if (next) {
+      params.set(name, next);
+    } else {
+      params.delete(name);
+    }
+    const query = params.toString();
+    router[historyMode](query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [value, name, historyMode, searchParams, pathname, router]);
+
+  return null;
+}
@@ -0,0 +1,171 @@
+// src/components/VirtualList.tsx
+'use client';
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, ReactNode, UIEvent } from 'react';
+import { computeOffsets, visibleRange } from '../lib/virtualWindow';
+
+type Props<T> = {
+  items: T[];
+  getKey: (item: T, index: number) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  // Maximum height of the scrolling viewport, in px
+  height?: number;
+  // Used for rows that haven't been measured yet
+  estimatedItemHeight?: number;
+  // Rows mounted above and below the viewport
+  overscan?: number;
+  // Space below each row, in px
+  gap?: number;
+  'aria-label'?: string;
+};
+
+/**
+ * Windowed list: only the rows in view (plus overscan) are mounted, absolutely
+ * positioned inside a spacer as tall as the whole list. Rows are measured once
+ * rendered, so they can have any height. Every row keeps aria-setsize and
+ * aria-posinset so screen readers announce its place in the full list, and the
+ * arrow keys, Page Up/Down, Home and End move focus between rows.
+ */
+export default function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  height = 600,
+  estimatedItemHeight = 72,
+  overscan = 5,
+  gap = 0,
+  'aria-label': ariaLabel,
+}: Props<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  // Measured heights by item key, so re-sorting keeps them
+  const sizes = useRef(new Map<string, number>());
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const focusPending = useRef(false);
+
+  const offsets = useMemo(
+    () => computeOffsets(items.length, (i) => sizes.current.get(getKey(items[i]!, i)) ?? estimatedItemHeight + gap),
+    // measureVersion invalidates the offsets after rows were measured
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [items, getKey, estimatedItemHeight, gap, measureVersion]
+  );
+
+  const active = Math.min(activeIndex, Math.max(0, items.length - 1));
+  const { start, end } = visibleRange(offsets, scrollTop, height, overscan);
+
+  // The focused row stays mounted even when scrolled out of view
+  const indices: number[] = [];
+  if (active < start) indices.push(active);
+  for (let i = start; i < end; i++) indices.push(i);
+  if (active >= end && active < items.length) indices.push(active);
+
+  // Measure rows whenever the mounted set changes; a changed height re-lays out the list
+  useLayoutEffect(() => {
+    const rows = listRef.current?.querySelectorAll<HTMLElement>('[data-index]') ?? [];
+    let changed = false;
+    rows.forEach((row) => {
+      const index = Number(row.dataset.index);
+      const size = row.offsetHeight;
+      if (!size || index >= items.length) return;
+      const key = getKey(items[index]!, index);
+      if (sizes.current.get(key) !== size) {
+        sizes.current.set(key, size);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion((v) => v + 1);
+  }, [items, getKey, start, end, active]);
+
+  // Move focus once the target row has been scrolled into view and mounted
+  useEffect(() => {
+    if (!focusPending.current) return;
+    focusPending.current = false;
+    listRef.current?.querySelector<HTMLElement>(`[data-index="${active}"]`)?.focus();
+  }, [active, scrollTop]);
+
+  const handleScroll = useCallback((e: UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  const focusRow = useCallback((index: number) => {
+    const viewport = viewportRef.current;
+    const top = offsets[index]!;
+    const bottom = offsets[index + 1]!;
+    let nextScrollTop = scrollTop;
+    if (top < scrollTop) {
+      nextScrollTop = top;
+    } else if (bottom > scrollTop + height) {
+      nextScrollTop = bottom - height;
+    }
+    if (viewport && nextScrollTop !== scrollTop) {
+      viewport.scrollTop = nextScrollTop;
+      setScrollTop(nextScrollTop);
+    }
+    focusPending.current = true;
+    setActiveIndex(index);
+  }, [offsets, scrollTop, height]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent<HTMLUListElement>) => {
+    const last = items.length - 1;
+    const pageRows = Math.max(1, Math.floor(height / (estimatedItemHeight + gap)));
+    const moves: Record<string, number> = {
+      ArrowDown: Math.min(active + 1, last),
+      ArrowUp: Math.max(active - 1, 0),
+      PageDown: Math.min(active + pageRows, last),
+      PageUp: Math.max(active - pageRows, 0),
+      Home: 0,
+      End: last,
+    };
+    const next = moves[e.key];
+    if (next !== undefined) {
+      e.preventDefault();
+      focusRow(next);
+    }
+  }, [items.length, height, estimatedItemHeight, gap, active, focusRow]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div
+      ref={viewportRef}
+      onScroll={handleScroll}
+      style={{ maxHeight: `${height}px`, overflowY: 'auto', position: 'relative' }}
+    >
+      <ul
+        ref={listRef}
+        aria-label={ariaLabel}
+        onKeyDown={handleKeyDown}
+        style={{
+          position: 'relative',
+          height: `${offsets[items.length]}px`,
+          listStyle: 'none',
+          padding: 0,
+          margin: 0,
+        }}
+      >
+        {indices.map((i) => (
+          <li
+            key={getKey(items[i]!, i)}
+            data-index={i}
+            aria-setsize={items.length}
+            aria-posinset={i + 1}
+            tabIndex={i === active ? 0 : -1}
+            onFocus={() => setActiveIndex(i)}
+            style={{
+              position: 'absolute',
+              top: `${offsets[i]}px`,
+              left: 0,
+              right: 0,
+              paddingBottom: `${gap}px`,
+              boxSizing: 'border-box',
+            }}
+          >
+            {renderItem(items[i]!, i)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
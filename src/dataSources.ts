@@ -0,0 +1,17 @@
+import path from "path";
+import type { TicketSources } from "./lib/ticketSources";
+import { createInMemoryTicketSource } from "./lib/ticketSources";
+import { createJsonFilePageRepository } from "./lib/jsonFilePageRepository";
+
+// Ticket sources available to `{ source, query }` TicketList blocks
+export const ticketSources: TicketSources = {
+  events: createInMemoryTicketSource(),
+};
+
+// Page documents served by the `[...slug]` route
+export const pageRepository = createJsonFilePageRepository(path.join(process.cwd(), "content", "pages"));
+
+// The /editor route writes to the page repository, so production builds opt in with ENABLE_PAGE_EDITOR=true
+export function pageEditorEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.ENABLE_PAGE_EDITOR === "true";
+}
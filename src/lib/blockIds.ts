@@ -0,0 +1,78 @@
+/**
+ * Block ids
+ *
+ * Blocks without an explicit `id` get one derived from their type and where
+ * they sit in the document, so the same document always yields the same ids
+ * and editing a block's props (or the data injected into them) doesn't change
+ * its id. Ids that must survive reordering are assigned once with
+ * `withBlockIds` and stored in the document; the page repository does that on
+ * save.
+ */
+
+import type { PropSchema } from './propSchema';
+
+type IdentifiableBlock = { id?: string; type: string; props: unknown };
+type SchemaLookup = (type: string) => Record<string, PropSchema | undefined> | undefined;
+
+// Where a block sits: its index, within a container's blocks field when it's nested
+export type BlockPosition = { index: number; parentId?: string; field?: string };
+
+// 32-bit FNV-1a, rendered in base 36
+export function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Nested blocks are placed under their parent's id, so moving a container keeps its children's ids when its own is stored
+function positionKey(block: IdentifiableBlock, position: BlockPosition): string {
+  const parent = position.parentId === undefined ? '' : `${position.parentId}.${position.field ?? ''}`;
+  return `${block.type}:${parent}[${position.index}]`;
+}
+
+/**
+ * Returns a function that assigns ids to blocks in render order. Explicit ids
+ * are kept as-is; generated ids that would repeat get a numeric suffix, so
+ * every block stays distinct.
+ */
+export function createBlockIdGenerator() {
+  const used = new Set<string>();
+
+  return function blockId(block: IdentifiableBlock, position: BlockPosition): string {
+    if (typeof block.id === 'string' && block.id !== '') {
+      used.add(block.id);
+      return block.id;
+    }
+
+    const base = `${block.type.toLowerCase()}-${hashString(positionKey(block, position))}`;
+    let id = base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    used.add(id);
+    return id;
+  };
+}
+
+// Copy of the blocks with every block (nested ones included) carrying an id
+export function withBlockIds<B extends IdentifiableBlock>(blocks: B[], lookup: SchemaLookup = () => undefined): B[] {
+  const blockId = createBlockIdGenerator();
+
+  const assign = (list: B[], parent: Omit<BlockPosition, 'index'>): B[] =>
+    list.map((block, index) => {
+      const id = blockId(block, { ...parent, index });
+      const schema = lookup(block.type) ?? {};
+      const props: Record<string, unknown> = { ...(block.props as Record<string, unknown>) };
+      for (const [name, field] of Object.entries(schema)) {
+        if (field?.kind === 'blocks' && Array.isArray(props[name])) {
+          props[name] = assign(props[name] as B[], { parentId: id, field: name });
+        }
+      }
+      return { ...block, id, props };
+    });
+
+  return assign(blocks, {});
+}
@@ -0,0 +1,148 @@
+/**
+ * Builder.io adapter
+ *
+ * Maps Builder content JSON (as returned by the content API) to a PageDoc.
+ * Each element's `component.name` becomes the block type and its
+ * `component.options` become the block props.
+ */
+
+import type { Block, PageDoc } from '../types';
+import type { AnyBlock, Registry } from '../registry';
+import { isPlainObject, PropSchema, ValidationIssue } from './propSchema';
+import { lookupSchema, PageDocValidationError, validatePageDoc, ValidationMode } from './validatePageDoc';
+
+export type BuilderElementJson = {
+  '@type'?: string;
+  id?: string;
+  component?: { name: string; options?: Record<string, unknown> };
+  children?: BuilderElementJson[];
+  [key: string]: unknown;
+};
+
+export type BuilderContentJson = {
+  id?: string;
+  name?: string;
+  data?: {
+    title?: string;
+    blocks?: BuilderElementJson[];
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+};
+
+export type BuilderAdapterOptions = {
+  // Symbol content keyed by entry id, for symbols fetched without `content`
+  symbols?: Record<string, BuilderContentJson>;
+  registry?: Pick<Registry<AnyBlock>, 'get'>;
+  mode?: ValidationMode;
+};
+
+type SymbolRef = {
+  entry?: string;
+  model?: string;
+  data?: Record<string, unknown>;
+  content?: BuilderContentJson;
+};
+
+const MAX_SYMBOL_DEPTH = 10;
+
+// Builder lists of primitives are stored as [{ value }] rows
+function unwrapListValues(options: Record<string, unknown>, fields?: Record<string, PropSchema>) {
+  if (!fields) return options;
+  const props: Record<string, unknown> = { ...options };
+  for (const [key, schema] of Object.entries(fields)) {
+    const value = props[key];
+    if (schema.kind === 'array' && schema.of.kind !== 'object' && Array.isArray(value)) {
+      props[key] = value.map((row) => (isPlainObject(row) && 'value' in row ? row.value : row));
+    }
+  }
+  return props;
+}
+
+type Context = {
+  options: BuilderAdapterOptions;
+  issues: ValidationIssue[];
+  symbolStack: string[];
+};
+
+function resolveSymbol(symbol: SymbolRef, path: string, ctx: Context): BuilderElementJson[] {
+  const key = symbol.entry ?? path;
+  if (ctx.symbolStack.includes(key) || ctx.symbolStack.length >= MAX_SYMBOL_DEPTH) {
+    ctx.issues.push({ path, message: `symbol "${key}" is nested too deeply or references itself` });
+    return [];
+  }
+
+  const content = symbol.content ?? (symbol.entry ? ctx.options.symbols?.[symbol.entry] : undefined);
+  if (!content) {
+    ctx.issues.push({ path, message: `unresolved symbol "${key}"` });
+    return [];
+  }
+
+  ctx.symbolStack.push(key);
+  try {
+    return flattenElements(content.data?.blocks ?? [], `${path}.symbol`, ctx);
+  } finally {
+    ctx.symbolStack.pop();
+  }
+}
+
+// Expand symbols and unwrap component-less layout boxes into a flat element list
+function flattenElements(elements: unknown, path: string, ctx: Context): BuilderElementJson[] {
+  if (!Array.isArray(elements)) {
+    ctx.issues.push({ path, message: 'expected array' });
+    return [];
+  }
+
+  return elements.flatMap((el: unknown, idx): BuilderElementJson[] => {
+    const elPath = `${path}[${idx}]`;
+    if (!isPlainObject(el)) {
+      ctx.issues.push({ path: elPath, message: 'expected object' });
+      return [];
+    }
+    const element = el as BuilderElementJson;
+    if (!element.component) {
+      return flattenElements(element.children ?? [], `${elPath}.children`, ctx);
+    }
+    if (element.component.name === 'Symbol') {
+      const symbol = element.component.options?.symbol;
+      return resolveSymbol(isPlainObject(symbol) ? (symbol as SymbolRef) : {}, elPath, ctx);
+    }
+    return [element];
+  });
+}
+
+type RawBlock = { id?: string; type: string; props: Record<string, unknown> };
+
+function elementToBlock(element: BuilderElementJson, path: string, ctx: Context): RawBlock {
+  const type = element.component?.name ?? '';
+  const fields = lookupSchema(type, ctx.options.registry);
+  const props = unwrapListValues(element.component?.options ?? {}, fields);
+
+  // Container blocks take their nested blocks from the element's Builder children
+  if (fields?.children?.kind === 'blocks') {
+    props.children = toBlocks(element.children ?? [], `${path}.children`, ctx);
+  }
+  return element.id ? { id: element.id, type, props } : { type, props };
+}
+
+function toBlocks(elements: unknown, path: string, ctx: Context): RawBlock[] {
+  return flattenElements(elements, path, ctx).map((el, idx) => elementToBlock(el, `${path}[${idx}]`, ctx));
+}
+
+export function builderContentToPageDoc<B extends AnyBlock = Block>(
+  content: BuilderContentJson,
+  options: BuilderAdapterOptions = {}
+): { value: PageDoc<B>; issues: ValidationIssue[] } {
+  const ctx: Context = { options, issues: [], symbolStack: [] };
+  const raw = {
+    pageTitle: content.data?.title ?? content.name,
+    blocks: toBlocks(content.data?.blocks ?? [], 'data.blocks', ctx),
+  };
+
+  if (options.mode === 'strict' && ctx.issues.length > 0) {
+    throw new PageDocValidationError(ctx.issues);
+  }
+  const validated = validatePageDoc<B>(raw, { mode: options.mode, registry: options.registry });
+
+  return { value: validated.value, issues: [...ctx.issues, ...validated.issues] };
+}
@@ -0,0 +1,76 @@
+/**
+ * Builder.io registration
+ *
+ * Exposes registry blocks to the Builder visual editor, with inputs derived
+ * from each block's prop schema.
+ */
+
+import type { Builder } from '@builder.io/react';
+import type { AnyBlock, AnyBlockDefinition, Registry } from '../registry';
+import type { PropSchema } from './propSchema';
+
+export type BuilderComponentOptions = Parameters<typeof Builder.registerComponent>[1];
+export type BuilderInput = NonNullable<BuilderComponentOptions['inputs']>[number];
+export type RegisterComponent = (component: unknown, options: BuilderComponentOptions) => void;
+
+type InputSchema = Exclude<PropSchema, { kind: 'blocks' }>;
+
+const inputTypes: Record<InputSchema['kind'], string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  array: 'list',
+  object: 'object',
+};
+
+export function toBuilderInput(name: string, schema: InputSchema, defaultValue?: unknown): BuilderInput {
+  const input: BuilderInput = { name, type: inputTypes[schema.kind] };
+  if (schema.required) input.required = true;
+  if (defaultValue !== undefined) input.defaultValue = defaultValue;
+
+  if (schema.kind === 'string' && schema.enum) {
+    input.enum = schema.enum;
+  }
+  if (schema.kind === 'object') {
+    input.subFields = toBuilderInputs(schema.fields);
+  }
+  if (schema.kind === 'array') {
+    // Builder lists hold objects, so primitive items become a single `value` field
+    input.subFields =
+      schema.of.kind === 'object'
+        ? toBuilderInputs(schema.of.fields)
+        : [toBuilderInput('value', { ...(schema.of as InputSchema), required: true })];
+  }
+  return input;
+}
+
+export function toBuilderInputs(
+  fields: Record<string, PropSchema | undefined>,
+  defaults: Record<string, unknown> = {}
+): BuilderInput[] {
+  // Nested blocks are edited as Builder children, not as inputs
+  return Object.entries(fields).flatMap(([name, schema]) =>
+    schema && schema.kind !== 'blocks' ? [toBuilderInput(name, schema, defaults[name])] : []
+  );
+}
+
+function isContainer(definition: AnyBlockDefinition) {
+  return Object.values<PropSchema | undefined>(definition.schema).some((schema) => schema?.kind === 'blocks');
+}
+
+export function toBuilderComponent(definition: AnyBlockDefinition): BuilderComponentOptions {
+  return {
+    name: definition.type,
+    friendlyName: definition.meta?.label,
+    description: definition.meta?.description,
+    inputs: toBuilderInputs(definition.schema, definition.defaultProps),
+    ...(isContainer(definition) && { canHaveChildren: true }),
+  };
+}
+
+// e.g. registerBuilderComponents(registry, Builder.registerComponent)
+export function registerBuilderComponents(registry: Registry<AnyBlock>, register: RegisterComponent) {
+  registry.definitions().forEach((definition) => {
+    register(definition.component, toBuilderComponent(definition));
+  });
+}
@@ -0,0 +1,43 @@
+import type { PageDoc, Ticket } from '../types';
+
+// Where a ticket's event page lives; ids come from transformTickets, so they're already strings
+export function eventHref(id: string): string {
+  return `/events/${encodeURIComponent(id)}`;
+}
+
+function eventDescription(ticket: Ticket): string {
+  const when = ticket.startsAt ? new Date(ticket.startsAt) : undefined;
+  const date =
+    when && !isNaN(when.getTime())
+      ? new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeZone: ticket.timeZone ?? 'UTC' }).format(when)
+      : undefined;
+  const place = [ticket.venue, ticket.city].filter(Boolean).join(', ');
+  const price = new Intl.NumberFormat('en-US', { style: 'currency', currency: ticket.currency }).format(ticket.price);
+  const lead = [date, place].filter(Boolean).join(' at ');
+  return lead ? `${lead}. Tickets from ${price}.` : `Tickets from ${price}.`;
+}
+
+/**
+ * The event page for a ticket, built from registry blocks like any other page
+ * doc: a Hero with the title, a PricePanel and a CTA back to the full list.
+ */
+export function eventPageDoc(ticket: Ticket): PageDoc {
+  const subtitle = [ticket.venue, ticket.city].filter(Boolean).join(', ');
+  return {
+    pageTitle: ticket.title,
+    seo: { description: eventDescription(ticket), canonical: eventHref(ticket.id) },
+    blocks: [
+      {
+        type: 'Section',
+        props: {
+          as: 'main',
+          children: [
+            { type: 'Hero', props: subtitle ? { title: ticket.title, subtitle } : { title: ticket.title } },
+            { type: 'PricePanel', props: { ticket } },
+            { type: 'CTA', props: { label: 'Browse All Events', href: '/events', variant: 'secondary' } },
+          ],
+        },
+      },
+    ],
+  };
+}
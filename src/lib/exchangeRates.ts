@@ -0,0 +1,75 @@
+import type { Currency } from '../types';
+
+/**
+ * Exchange rates
+ *
+ * TicketList converts every price into one display currency so rows can be
+ * compared and sorted by value. Providers are synchronous: anything that has
+ * to fetch rates should do so up front and hand over a rate table.
+ */
+
+export type ExchangeRateProvider = {
+  // Units of `to` per one unit of `from`, or undefined when unknown
+  getRate(from: Currency, to: Currency): number | undefined;
+  // Currencies this provider can convert between
+  currencies(): Currency[];
+};
+
+// Units of each currency per one unit of `base`
+export type RateTable = {
+  base: Currency;
+  rates: Partial<Record<Currency, number>>;
+};
+
+// Static snapshot used when no provider is injected; not live market data
+export const defaultRateTable: RateTable = {
+  base: 'USD',
+  rates: { USD: 1, EUR: 0.92, GBP: 0.79, CAD: 1.36, AUD: 1.52, CHF: 0.88, JPY: 150 },
+};
+
+export function createStaticRateProvider(table: RateTable = defaultRateTable): ExchangeRateProvider {
+  const perBase = (currency: Currency) =>
+    currency === table.base ? 1 : table.rates[currency];
+
+  return {
+    getRate(from, to) {
+      if (from === to) return 1;
+      const fromRate = perBase(from);
+      const toRate = perBase(to);
+      if (!fromRate || !toRate) return undefined;
+      return toRate / fromRate;
+    },
+    currencies() {
+      const listed = Object.keys(table.rates) as Currency[];
+      return listed.includes(table.base) ? listed : [table.base, ...listed];
+    },
+  };
+}
+
+export const defaultRateProvider = createStaticRateProvider();
+
+export function convertPrice(
+  amount: number,
+  from: Currency,
+  to: Currency,
+  provider: ExchangeRateProvider = defaultRateProvider
+): number | undefined {
+  const rate = provider.getRate(from, to);
+  return rate === undefined ? undefined : amount * rate;
+}
+
+/**
+ * The currency a list is displayed in: the requested one (e.g. `?display=`)
+ * when the provider has rates for it, else the list's own `displayCurrency`,
+ * else the provider's first currency. Any ISO code parses, but prices can only
+ * be shown in a currency the provider can convert to.
+ */
+export function resolveDisplayCurrency(
+  requested: Currency | undefined,
+  listCurrency: Currency,
+  provider: ExchangeRateProvider = defaultRateProvider
+): Currency {
+  const supported = provider.currencies();
+  if (requested !== undefined && supported.includes(requested)) return requested;
+  return supported.includes(listCurrency) ? listCurrency : supported[0] ?? listCurrency;
+}
@@ -0,0 +1,43 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createPageRepository, PageRepository, PageRepositoryOptions } from './pageRepository';
+
+// Slugs of the `.json` files under dir, including nested ones (`events/summer`)
+async function listSlugs(dir: string, prefix = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const slugs = await Promise.all(
+    entries.map((entry) => {
+      if (entry.isDirectory()) return listSlugs(path.join(dir, entry.name), `${prefix}${entry.name}/`);
+      return entry.isFile() && entry.name.endsWith('.json') ? [`${prefix}${entry.name.slice(0, -'.json'.length)}`] : [];
+    })
+  );
+  return slugs.flat();
+}
+
+// `<dir>/<slug>.json`, e.g. `content/pages/events.json` for /events.
+// Reads the file on every request so edits show up without a restart.
+export function createJsonFilePageRepository(dir: string, options: PageRepositoryOptions = {}): PageRepository {
+  const fileFor = (slug: string) => path.join(dir, `${slug}.json`);
+
+  return createPageRepository({
+    async read(slug) {
+      try {
+        return JSON.parse(await readFile(fileFor(slug), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+    async write(slug, doc) {
+      await mkdir(path.dirname(fileFor(slug)), { recursive: true });
+      await writeFile(fileFor(slug), `${JSON.stringify(doc, null, 2)}\n`);
+    },
+    list: () => listSlugs(dir),
+  }, options);
+}
@@ -0,0 +1,7 @@
+import { readFile } from 'fs/promises';
+import { createTicketSource, TicketSource } from './ticketSources';
+
+// Reads the file on every request so edits show up without a restart
+export function createJsonFileTicketSource(filePath: string): TicketSource {
+  return createTicketSource(async () => JSON.parse(await readFile(filePath, 'utf8')));
+}
@@ -0,0 +1,149 @@
+/**
+ * Page editor
+ *
+ * Pure helpers behind the /editor route: addressing, inserting, moving and
+ * removing blocks anywhere in a block tree, and defaults for new blocks and
+ * form fields, derived from prop schemas.
+ */
+
+import type { AnyBlock, AnyBlockDefinition, Registry } from '../registry';
+import { isPlainObject } from './propSchema';
+import type { PropSchema } from './propSchema';
+import { lookupSchema } from './validatePageDoc';
+
+type SchemaSource = Pick<Registry<AnyBlock>, 'get'>;
+
+// Block list indexes joined by the blocks field they're in: [2, "children", 0]
+// is the first child of the third top-level block
+export type BlockPath = readonly (number | string)[];
+
+function blocksFields(block: AnyBlock, registry?: SchemaSource): string[] {
+  return Object.entries(lookupSchema(block.type, registry) ?? {})
+    .filter(([, field]) => field.kind === 'blocks')
+    .map(([name]) => name);
+}
+
+function childList<B extends AnyBlock>(block: B, field: string): B[] {
+  const value = isPlainObject(block.props) ? block.props[field] : undefined;
+  return Array.isArray(value) ? (value as B[]) : [];
+}
+
+export function findBlockPath<B extends AnyBlock>(blocks: B[], id: string, registry?: SchemaSource): BlockPath | undefined {
+  for (const [index, block] of blocks.entries()) {
+    if (block.id === id) return [index];
+    for (const field of blocksFields(block, registry)) {
+      const nested = findBlockPath(childList(block, field), id, registry);
+      if (nested) return [index, field, ...nested];
+    }
+  }
+  return undefined;
+}
+
+export function blockAt<B extends AnyBlock>(blocks: B[], path: BlockPath): B | undefined {
+  const [index, field, ...rest] = path;
+  const block = blocks[index as number];
+  if (!block || field === undefined) return block;
+  return blockAt(childList(block, field as string), rest);
+}
+
+// Applies update to the list at listPath: [] for the top level, [2, "children"] for a container's children
+function updateList<B extends AnyBlock>(blocks: B[], listPath: BlockPath, update: (list: B[]) => B[]): B[] {
+  if (listPath.length === 0) return update(blocks);
+  const [index, field, ...rest] = listPath as [number, string, ...BlockPath];
+  return blocks.map((block, i) =>
+    i === index
+      ? { ...block, props: { ...(block.props as Record<string, unknown>), [field]: updateList(childList(block, field), rest, update) } }
+      : block
+  );
+}
+
+function splitPath(path: BlockPath): [BlockPath, number] {
+  return [path.slice(0, -1), path[path.length - 1] as number];
+}
+
+export function updateBlockAt<B extends AnyBlock>(blocks: B[], path: BlockPath, update: (block: B) => B): B[] {
+  const [listPath, index] = splitPath(path);
+  return updateList(blocks, listPath, (list) => list.map((block, i) => (i === index ? update(block) : block)));
+}
+
+// Appends unless an index is given
+export function insertBlockAt<B extends AnyBlock>(blocks: B[], listPath: BlockPath, block: B, index?: number): B[] {
+  return updateList(blocks, listPath, (list) => {
+    const at = index ?? list.length;
+    return [...list.slice(0, at), block, ...list.slice(at)];
+  });
+}
+
+export function removeBlockAt<B extends AnyBlock>(blocks: B[], path: BlockPath): B[] {
+  const [listPath, index] = splitPath(path);
+  return updateList(blocks, listPath, (list) => list.filter((_, i) => i !== index));
+}
+
+// Moves a block up (-1) or down (1) within its list; moves past either end change nothing
+export function moveBlockAt<B extends AnyBlock>(blocks: B[], path: BlockPath, offset: number): B[] {
+  const [listPath, index] = splitPath(path);
+  return updateList(blocks, listPath, (list) => {
+    const to = index + offset;
+    if (to < 0 || to >= list.length) return list;
+    const next = [...list];
+    next.splice(to, 0, ...next.splice(index, 1));
+    return next;
+  });
+}
+
+// Every id in the tree, nested blocks included
+export function collectBlockIds(blocks: AnyBlock[], registry?: SchemaSource): Set<string> {
+  const ids = new Set<string>();
+  const visit = (list: AnyBlock[]) => {
+    for (const block of list) {
+      if (block.id) ids.add(block.id);
+      for (const field of blocksFields(block, registry)) visit(childList(block, field));
+    }
+  };
+  visit(blocks);
+  return ids;
+}
+
+// `hero-1`, `hero-2`, ... skipping ids already in use
+export function nextBlockId(type: string, taken: ReadonlySet<string>): string {
+  let n = 1;
+  while (taken.has(`${type.toLowerCase()}-${n}`)) n++;
+  return `${type.toLowerCase()}-${n}`;
+}
+
+// Starting value for a field: an enum's first option, an empty string, 0, false, [] or an object of its required fields
+export function defaultValue(schema: PropSchema): unknown {
+  switch (schema.kind) {
+    case 'string':
+      return schema.enum?.[0] ?? '';
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'array':
+    case 'blocks':
+      return [];
+    case 'object':
+      return requiredDefaults(schema.fields);
+  }
+}
+
+function requiredDefaults(fields: Record<string, PropSchema | undefined>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(fields).flatMap(([name, field]) => (field?.required ? [[name, defaultValue(field)]] : []))
+  );
+}
+
+// A block ready to insert: required props get defaults, then the definition's defaultProps apply
+export function newBlock(definition: AnyBlockDefinition, id: string): AnyBlock {
+  return { id, type: definition.type, props: { ...requiredDefaults(definition.schema), ...definition.defaultProps } };
+}
+
+// "minColumnWidth" -> "Min column width"
+export function fieldLabel(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[-_]/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// What the editor's save action reports back
+export type SaveResult = { ok: true; slug: string; revision: number } | { ok: false; issues: string[] };
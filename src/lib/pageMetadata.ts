@@ -0,0 +1,36 @@
+import type { Metadata } from 'next';
+import type { PageDoc } from '../types';
+
+/**
+ * Next.js metadata for a page doc. Only fields the doc sets are returned, so
+ * everything else falls back to the layout's site-wide metadata. Next merges
+ * `openGraph` and `twitter` shallowly, so the page's versions repeat its title
+ * and description instead of inheriting the layout's.
+ */
+export function pageMetadata(doc: Pick<PageDoc, 'pageTitle' | 'seo'>): Metadata {
+  const seo = doc.seo ?? {};
+  const title = seo.title ?? doc.pageTitle;
+  const { description, canonical, ogImage } = seo;
+
+  const metadata: Metadata = {};
+  if (title) metadata.title = title;
+  if (description) metadata.description = description;
+  if (canonical) metadata.alternates = { canonical };
+  if (title || description || ogImage) {
+    metadata.openGraph = {
+      type: 'website',
+      ...(title && { title }),
+      ...(description && { description }),
+      ...(ogImage && { images: [ogImage] }),
+    };
+    metadata.twitter = {
+      card: ogImage ? 'summary_large_image' : 'summary',
+      ...(title && { title }),
+      ...(description && { description }),
+      ...(ogImage && { images: [ogImage] }),
+    };
+  }
+  if (seo.noindex) metadata.robots = { index: false, follow: true };
+
+  return metadata;
+}
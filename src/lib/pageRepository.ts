@@ -0,0 +1,91 @@
+import type { PageDoc } from '../types';
+import { withBlockIds } from './blockIds';
+import { lookupSchema, validatePageDoc } from './validatePageDoc';
+
+// Where routed pages come from; raw documents always go through validatePageDoc
+export type PageRepository = {
+  // Resolves undefined for slugs without a page
+  getPage(slug: string): Promise<PageDoc | undefined>;
+  // Validates strictly, so a document with any issue is rejected (PageDocValidationError) rather than repaired.
+  // Blocks without an id get one, stored with the page. The stored version moves into `revisions`;
+  // the history in doc itself is ignored.
+  savePage(slug: string, doc: unknown): Promise<PageDoc>;
+  // Every stored slug, sorted
+  listPages(): Promise<string[]>;
+};
+
+// Raw document storage behind a repository
+export type PageStorage = {
+  // Undefined when there's no document for the slug
+  read(slug: string): unknown | Promise<unknown>;
+  write(slug: string, doc: PageDoc): void | Promise<void>;
+  list(): string[] | Promise<string[]>;
+};
+
+export type PageRepositoryOptions = {
+  // Timestamps saves; defaults to the system clock
+  now?: () => Date;
+  // Earlier saves kept per page, newest first
+  maxRevisions?: number;
+};
+
+// Letters, digits, dashes and underscores; anything else (dots included) can't name a page
+const SEGMENT = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Joins route segments (`['events', 'summer']`) into a slug (`events/summer`).
+ * Returns undefined for segments that can't name a page, so file-backed
+ * repositories never see `..` or separators.
+ */
+export function slugFromSegments(segments: readonly string[]): string | undefined {
+  if (segments.length === 0 || !segments.every((segment) => SEGMENT.test(segment))) return undefined;
+  return segments.join('/').toLowerCase();
+}
+
+// Build a repository over storage holding raw (untrusted) documents
+export function createPageRepository(storage: PageStorage, options: PageRepositoryOptions = {}): PageRepository {
+  const { now = () => new Date(), maxRevisions = 20 } = options;
+
+  const getPage = async (slug: string) => {
+    const raw = await storage.read(slug);
+    return raw === undefined ? undefined : validatePageDoc(raw).value;
+  };
+
+  return {
+    getPage,
+    async savePage(slug, doc) {
+      if (slugFromSegments(slug.split('/')) !== slug) {
+        throw new Error(`Invalid page slug "${slug}"`);
+      }
+      const { value } = validatePageDoc(doc, { mode: 'strict' });
+      const stored = await getPage(slug);
+
+      const blocks = withBlockIds(value.blocks, (type) => lookupSchema(type));
+      const saved: PageDoc = { ...value, blocks, revision: (stored?.revision ?? 0) + 1, savedAt: now().toISOString() };
+      delete saved.revisions;
+      if (stored) {
+        const { revisions = [], ...previous } = stored;
+        saved.revisions = [previous, ...revisions].slice(0, maxRevisions);
+      }
+      await storage.write(slug, saved);
+      return saved;
+    },
+    async listPages() {
+      return [...(await storage.list())].sort();
+    },
+  };
+}
+
+export function createInMemoryPageRepository(
+  pages: Record<string, unknown> = {},
+  options: PageRepositoryOptions = {}
+): PageRepository {
+  const store = new Map(Object.entries(pages));
+  return createPageRepository({
+    read: (slug) => store.get(slug),
+    write: (slug, doc) => {
+      store.set(slug, doc);
+    },
+    list: () => Array.from(store.keys()),
+  }, options);
+}
@@ -0,0 +1,29 @@
+// Pure helpers behind the paged and infinite TicketList modes
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export function countPages(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+// Keep a page number from the URL or state within 1..pageCount
+export function clampPage(page: number, pageCount: number): number {
+  if (!Number.isFinite(page)) return 1;
+  return Math.min(Math.max(1, Math.floor(page)), pageCount);
+}
+
+/**
+ * Page numbers to show as buttons: the first and last page plus a window
+ * around the current one, with `null` marking each gap.
+ */
+export function pageWindow(page: number, pageCount: number, radius = 1): Array<number | null> {
+  const pages: Array<number | null> = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= radius) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
@@ -0,0 +1,144 @@
+/**
+ * Prop schemas
+ *
+ * A tiny, dependency-free description of block props that can be checked at
+ * runtime. Schemas are plain objects so they can also be inspected (e.g. to
+ * build editor forms or CMS input definitions).
+ */
+
+export type PropSchema =
+  | { kind: 'string'; required?: boolean; enum?: readonly string[] }
+  | { kind: 'number'; required?: boolean }
+  | { kind: 'boolean'; required?: boolean }
+  | { kind: 'array'; required?: boolean; of: PropSchema }
+  | { kind: 'object'; required?: boolean; fields: Record<string, PropSchema> }
+  | { kind: 'blocks'; required?: boolean };  // nested Block[] (container children)
+
+// Keys of every member when P is a union of props shapes
+type AllKeys<P> = P extends unknown ? keyof P : never;
+
+// Field map for a props object; keys are checked against the props type
+export type PropsSchema<P> = { [K in AllKeys<P> & string]?: PropSchema };
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export type CheckResult = {
+  ok: boolean;          // false when the value cannot be used at all
+  value: unknown;       // value with optional bad fields / items removed
+  issues: ValidationIssue[];
+};
+
+// Checks for nested block lists, supplied by the page validator
+export type CheckHooks = {
+  blocks?: (value: unknown[], path: string) => CheckResult;
+};
+
+export function formatIssue(issue: ValidationIssue): string {
+  return `${issue.path || '(root)'}: ${issue.message}`;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(schema: PropSchema): string {
+  if (schema.kind === 'string' && schema.enum) {
+    // Long lists (e.g. currency codes) would drown the message
+    if (schema.enum.length > 10) return `one of ${schema.enum.length} allowed values`;
+    return `one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`;
+  }
+  if (schema.kind === 'blocks') {
+    return 'array of blocks';
+  }
+  return schema.kind;
+}
+
+function matchesKind(value: unknown, schema: PropSchema): boolean {
+  switch (schema.kind) {
+    case 'string':
+      return typeof value === 'string' && (!schema.enum || schema.enum.includes(value));
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+    case 'blocks':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+export function checkObject(
+  value: Record<string, unknown>,
+  fields: Record<string, PropSchema>,
+  path: string,
+  hooks: CheckHooks = {}
+): CheckResult {
+  const issues: ValidationIssue[] = [];
+  const result: Record<string, unknown> = { ...value };
+  let ok = true;
+
+  for (const [key, fieldSchema] of Object.entries(fields)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const checked = checkValue(value[key], fieldSchema, fieldPath, hooks);
+    issues.push(...checked.issues);
+    if (!checked.ok) {
+      ok = false;
+    } else if (checked.value === undefined) {
+      delete result[key];
+    } else {
+      result[key] = checked.value;
+    }
+  }
+
+  return { ok, value: result, issues };
+}
+
+/**
+ * Check a value against a schema. Required fields that are missing or of the
+ * wrong type make the result unusable; optional ones are dropped, and invalid
+ * array items are removed from the array.
+ */
+export function checkValue(value: unknown, schema: PropSchema, path: string, hooks: CheckHooks = {}): CheckResult {
+  if (value === undefined || value === null) {
+    return schema.required
+      ? { ok: false, value, issues: [{ path, message: 'required' }] }
+      : { ok: true, value: undefined, issues: [] };
+  }
+
+  if (!matchesKind(value, schema)) {
+    const issue = { path, message: `expected ${describeType(schema)}` };
+    return schema.required
+      ? { ok: false, value, issues: [issue] }
+      : { ok: true, value: undefined, issues: [issue] };
+  }
+
+  if (schema.kind === 'array') {
+    const issues: ValidationIssue[] = [];
+    const items: unknown[] = [];
+    (value as unknown[]).forEach((item, idx) => {
+      const checked = checkValue(item, { ...schema.of, required: true }, `${path}[${idx}]`, hooks);
+      issues.push(...checked.issues);
+      if (checked.ok) items.push(checked.value);
+    });
+    return { ok: true, value: items, issues };
+  }
+
+  if (schema.kind === 'object') {
+    const checked = checkObject(value as Record<string, unknown>, schema.fields, path, hooks);
+    if (!checked.ok && !schema.required) {
+      return { ok: true, value: undefined, issues: checked.issues };
+    }
+    return checked;
+  }
+
+  if (schema.kind === 'blocks' && hooks.blocks) {
+    return hooks.blocks(value as unknown[], path);
+  }
+
+  return { ok: true, value, issues: [] };
+}
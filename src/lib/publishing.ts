@@ -0,0 +1,72 @@
+/**
+ * Publishing
+ *
+ * Whether a page doc is live: drafts never are, scheduled pages go live at
+ * `publishAt`, and any page comes down again at `unpublishAt`. Docs without a
+ * status are published, so pages written before statuses existed stay up.
+ */
+
+import type { PageDoc, PageRevision } from '../types';
+
+export const pageStatuses = ['draft', 'scheduled', 'published'] as const;
+
+export type PageStatus = (typeof pageStatuses)[number];
+
+type Schedule = Pick<PageDoc, 'status' | 'publishAt' | 'unpublishAt'>;
+
+// ISO 8601 date-time with a UTC offset, e.g. `2025-07-01T09:00:00Z`. The offset is
+// required: without one the instant would depend on the server's time zone
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+export function isTimestamp(value: string): boolean {
+  return TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// Milliseconds for a timestamp, undefined when it's missing or unreadable
+function timeOf(value: string | undefined): number | undefined {
+  const time = value === undefined ? NaN : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export function isPagePublished(doc: Schedule, now: Date = new Date()): boolean {
+  const status = doc.status ?? 'published';
+  if (status === 'draft') return false;
+
+  const publishAt = timeOf(doc.publishAt);
+  if (status === 'scheduled' && (publishAt === undefined || now.getTime() < publishAt)) return false;
+
+  const unpublishAt = timeOf(doc.unpublishAt);
+  return unpublishAt === undefined || now.getTime() < unpublishAt;
+}
+
+/**
+ * The version of a page visitors get: the doc itself once it's live, else the
+ * newest revision that is, so saving a draft or a later schedule over a live
+ * page leaves that page up. A version that has come down (`unpublishAt`)
+ * keeps the page down rather than bringing back anything older.
+ */
+export function publishedVersion<B extends { type: string }>(
+  doc: PageDoc<B>,
+  now: Date = new Date()
+): PageRevision<B> | undefined {
+  for (const version of [doc, ...(doc.revisions ?? [])]) {
+    if (isPagePublished(version, now)) return version;
+    const unpublishAt = timeOf(version.unpublishAt);
+    if (unpublishAt !== undefined && now.getTime() >= unpublishAt) return undefined;
+  }
+  return undefined;
+}
+
+// "Draft", "Scheduled for 1 Jul 2025, 09:00 UTC", "Published", "Unpublished since ..."
+export function describePageStatus(doc: Schedule, now: Date = new Date()): string {
+  const format = (time: number) =>
+    `${new Intl.DateTimeFormat('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }).format(time)} UTC`;
+  const publishAt = timeOf(doc.publishAt);
+  const unpublishAt = timeOf(doc.unpublishAt);
+
+  if (doc.status === 'draft') return 'Draft';
+  if (doc.status === 'scheduled' && publishAt === undefined) return 'Scheduled, without a publish time';
+  if (doc.status === 'scheduled' && publishAt !== undefined && now.getTime() < publishAt) return `Scheduled for ${format(publishAt)}`;
+  if (unpublishAt !== undefined && now.getTime() >= unpublishAt) return `Unpublished since ${format(unpublishAt)}`;
+  return unpublishAt === undefined ? 'Published' : `Published until ${format(unpublishAt)}`;
+}
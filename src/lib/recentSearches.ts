@@ -0,0 +1,48 @@
+// Recent search terms kept in localStorage, newest first.
+// Like urlState, these are no-ops during SSR and fail silently where storage is
+// unavailable (private mode, quota exceeded, disabled cookies).
+
+export const MAX_RECENT_SEARCHES = 5;
+
+function storage(): Storage | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+export function readRecentSearches(key: string): string[] {
+  try {
+    const stored: unknown = JSON.parse(storage()?.getItem(key) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((term): term is string => typeof term === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Moves the term to the front, dropping case-insensitive duplicates and the oldest beyond the limit
+export function addRecentSearch(key: string, term: string, limit = MAX_RECENT_SEARCHES): string[] {
+  const trimmed = term.trim();
+  if (!trimmed) return readRecentSearches(key);
+
+  const terms = [
+    trimmed,
+    ...readRecentSearches(key).filter((existing) => existing.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, limit);
+  try {
+    storage()?.setItem(key, JSON.stringify(terms));
+  } catch {
+    // Keep working with the in-memory list
+  }
+  return terms;
+}
+
+export function clearRecentSearches(key: string) {
+  try {
+    storage()?.removeItem(key);
+  } catch {
+    // Nothing to clear
+  }
+}
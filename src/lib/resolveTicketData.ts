@@ -0,0 +1,72 @@
+import type { Block } from '../types';
+import type { AnyBlock, Registry } from '../registry';
+import type { ValidationIssue } from './propSchema';
+import { isPlainObject } from './propSchema';
+import { lookupSchema } from './validatePageDoc';
+import type { TicketSources } from './ticketSources';
+import type { TicketView } from './ticketView';
+
+export type ResolveOptions = {
+  registry?: Pick<Registry<AnyBlock>, 'get'>;
+};
+
+/**
+ * Replace TicketList `{ source, query }` props with the tickets fetched from
+ * the named source, including TicketLists nested in containers. Sources are
+ * queried in parallel; unknown or failing sources leave an empty list and an
+ * issue instead of failing the page.
+ */
+export async function resolveTicketData<B extends AnyBlock = Block>(
+  blocks: B[],
+  sources: TicketSources,
+  options: ResolveOptions = {}
+): Promise<{ value: B[]; issues: ValidationIssue[] }> {
+  const issues: ValidationIssue[] = [];
+
+  const resolveList = (list: B[], path: string): Promise<B[]> =>
+    Promise.all(list.map((block, idx) => resolveBlock(block, `${path}[${idx}]`)));
+
+  const resolveBlock = async (block: B, path: string): Promise<B> => {
+    if (!isPlainObject(block.props)) return block;
+    const props: Record<string, unknown> = { ...block.props };
+
+    const fields = lookupSchema(block.type, options.registry) ?? {};
+    for (const [name, field] of Object.entries(fields)) {
+      if (field.kind === 'blocks' && Array.isArray(props[name])) {
+        props[name] = await resolveList(props[name] as B[], `${path}.props.${name}`);
+      }
+    }
+
+    if (block.type === 'TicketList' && typeof props.source === 'string') {
+      const { source, query, ...rest } = props;
+      const ticketSource = sources[source];
+      let tickets: unknown[] = [];
+      if (!ticketSource) {
+        issues.push({ path: `${path}.props.source`, message: `unknown ticket source "${source}"` });
+      } else {
+        try {
+          tickets = await ticketSource.getTickets(isPlainObject(query) ? query : undefined);
+        } catch (error) {
+          issues.push({ path: `${path}.props.source`, message: `ticket source "${source}" failed: ${(error as Error).message}` });
+        }
+      }
+      return { ...block, props: { ...rest, tickets } };
+    }
+
+    return { ...block, props };
+  };
+
+  const value = await resolveList(blocks, 'blocks');
+  return { value, issues };
+}
+
+/**
+ * Extra props (see `RenderOptions.extraProps`) handing the view requested in
+ * the query string to every TicketList, nested ones included, so they render
+ * it on the server instead of after hydration. The view stays out of the
+ * blocks themselves, which keeps it out of the page document.
+ */
+export function ticketViewProps(view: TicketView) {
+  return (block: AnyBlock): { initialView: TicketView } | undefined =>
+    block.type === 'TicketList' ? { initialView: view } : undefined;
+}
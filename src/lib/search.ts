@@ -0,0 +1,202 @@
+/**
+ * Search
+ *
+ * Token-based fuzzy search for short texts such as ticket titles. Every query
+ * word has to match a word in the text (in any order), either exactly, as a
+ * prefix, inside the word or within a small number of typos. Accents and case
+ * are ignored, so "beyonce" finds "Beyoncé". Texts are tokenized once when the
+ * index is built, which keeps a search over 10k titles within a keystroke.
+ */
+
+// [start, end) offsets into the original text
+export type MatchRange = [number, number];
+
+export type SearchHit<T> = {
+  item: T;
+  score: number;
+  ranges: MatchRange[];
+};
+
+export type SearchIndex<T> = {
+  search(query: string): SearchHit<T>[];
+};
+
+type Token = {
+  folded: string;
+  start: number;
+  // Original offset of each folded character, plus the token end
+  offsets: number[];
+};
+
+type Entry<T> = { item: T; tokens: Token[]; position: number };
+
+// Match of a query word against a folded term, in folded offsets
+type TermMatch = { score: number; from: number; to: number };
+
+// Titles share most of their words, so each word/term pair is matched once per search
+type MatchCache = Map<string, TermMatch | null>;
+
+type TokenMatch = { index: number; score: number; range: MatchRange };
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Scores per kind of match; typos cost more the more edits they need
+const EXACT = 1;
+const PREFIX = 0.8;
+const INFIX = 0.5;
+const TYPO = [1, 0.6, 0.35] as const;
+const LEADING_BONUS = 0.5;
+const IN_ORDER_BONUS = 0.25;
+
+// Lowercase with accents and other combining marks removed
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function foldToken(word: string, start: number): Token {
+  let folded = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of word) {
+    const part = foldText(char);
+    for (let i = 0; i < part.length; i++) offsets.push(start + index);
+    folded += part;
+    index += char.length;
+  }
+  offsets.push(start + word.length);
+  return { folded, start, offsets };
+}
+
+export function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD), (match) => foldToken(match[0], match.index ?? 0)).filter(
+    (token) => token.folded !== ''
+  );
+}
+
+// Short words must match exactly; longer ones tolerate one typo, long ones two
+export function allowedTypos(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps), giving
+ * up as soon as it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2]! + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function matchTerm(word: string, text: string): TermMatch | null {
+  if (text === word) return { score: EXACT, from: 0, to: text.length };
+  if (text.startsWith(word)) return { score: PREFIX, from: 0, to: word.length };
+
+  const infix = word.length > 1 ? text.indexOf(word) : -1;
+  if (infix > 0) return { score: INFIX, from: infix, to: infix + word.length };
+
+  const max = allowedTypos(word.length);
+  if (max === 0) return null;
+  // Compare with the whole word and with a same-length prefix, for words still being typed
+  const edits = Math.min(
+    editDistance(word, text, max),
+    text.length > word.length ? editDistance(word, text.slice(0, word.length), max) : max + 1
+  );
+  if (edits > max) return null;
+  return { score: TYPO[edits]!, from: 0, to: text.length };
+}
+
+function bestMatch(word: string, tokens: Token[], cache: MatchCache): TokenMatch | undefined {
+  let best: TokenMatch | undefined;
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index]!;
+    let match = cache.get(token.folded);
+    if (match === undefined) {
+      match = matchTerm(word, token.folded);
+      cache.set(token.folded, match);
+    }
+    if (match && (!best || match.score > best.score)) {
+      best = { index, score: match.score, range: [token.offsets[match.from]!, token.offsets[match.to]!] };
+      if (match.score === EXACT) break;
+    }
+  }
+  return best;
+}
+
+// Sorted, with overlapping or touching ranges joined
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function scoreEntry<T>(words: string[], caches: MatchCache[], entry: Entry<T>): SearchHit<T> | undefined {
+  const matches: TokenMatch[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const match = bestMatch(words[i]!, entry.tokens, caches[i]!);
+    if (!match) return undefined;
+    matches.push(match);
+  }
+
+  let score = matches.reduce((sum, match) => sum + match.score, 0);
+  if (matches[0]!.index === 0) score += LEADING_BONUS;
+  for (let i = 1; i < matches.length; i++) {
+    if (matches[i]!.index === matches[i - 1]!.index + 1) score += IN_ORDER_BONUS;
+  }
+  // Among equal matches, prefer the shorter text
+  score -= entry.tokens.length * 0.01;
+
+  return { item: entry.item, score, ranges: mergeRanges(matches.map((match) => match.range)) };
+}
+
+/**
+ * Builds an index over `items`. `search` returns the items matching every word
+ * of the query, best match first; ties keep the original order. An empty
+ * query returns no hits.
+ */
+export function createSearchIndex<T>(items: readonly T[], getText: (item: T) => string): SearchIndex<T> {
+  const entries: Entry<T>[] = items.map((item, position) => ({ item, tokens: tokenize(getText(item)), position }));
+
+  return {
+    search(query) {
+      const words = [...new Set(tokenize(query).map((token) => token.folded))];
+      if (words.length === 0) return [];
+      const caches = words.map((): MatchCache => new Map());
+
+      const hits: (SearchHit<T> & { position: number })[] = [];
+      for (const entry of entries) {
+        const hit = scoreEntry(words, caches, entry);
+        if (hit) hits.push({ ...hit, position: entry.position });
+      }
+      hits.sort((a, b) => b.score - a.score || a.position - b.position);
+      return hits.map(({ position, ...hit }) => hit);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import type { Block, Ticket, TicketListDisplay } from '../types';
+import type { AnyBlock } from '../registry';
+import { isPlainObject } from './propSchema';
+import { lookupSchema } from './validatePageDoc';
+import type { ResolveOptions } from './resolveTicketData';
+import { convertPrice, resolveDisplayCurrency } from './exchangeRates';
+import { clampPage, countPages, DEFAULT_PAGE_SIZE } from './pagination';
+import { defaultTicketView, queryTickets } from './ticketView';
+import type { TicketView } from './ticketView';
+
+/**
+ * Structured data
+ *
+ * schema.org JSON-LD for the tickets on a page, so event pages are eligible
+ * for rich results. Each ticket becomes an `Event` with a single `Offer`.
+ */
+
+export type JsonLd = Record<string, unknown>;
+
+const SCHEMA_ORG = 'https://schema.org';
+
+// "all" and "virtual" lists can hold thousands of tickets; the markup stops here
+export const MAX_STRUCTURED_EVENTS = 50;
+
+// Undefined for tickets without a usable start time, which an Event requires
+export function ticketEvent(ticket: Ticket): JsonLd | undefined {
+  const startsAt = ticket.startsAt ? new Date(ticket.startsAt) : undefined;
+  if (!startsAt || isNaN(startsAt.getTime())) return undefined;
+
+  const offer: JsonLd = { '@type': 'Offer', price: ticket.price, priceCurrency: ticket.currency };
+  if (ticket.quantityAvailable !== undefined) {
+    offer.availability = `${SCHEMA_ORG}/${ticket.quantityAvailable > 0 ? 'InStock' : 'SoldOut'}`;
+  }
+
+  const event: JsonLd = { '@type': 'Event', name: ticket.title, startDate: startsAt.toISOString() };
+  if (ticket.venue || ticket.city) {
+    event.location = {
+      '@type': 'Place',
+      name: ticket.venue ?? ticket.city,
+      ...(ticket.city && { address: ticket.city }),
+    };
+  }
+  event.offers = offer;
+  return event;
+}
+
+// The tickets a TicketList renders on the server for this view, in order
+function listedTickets(props: Record<string, unknown>, view: TicketView): Ticket[] {
+  const tickets = Array.isArray(props.tickets) ? (props.tickets as Ticket[]) : [];
+  const { mode = 'all', pageSize, displayCurrency = 'USD' } = props as TicketListDisplay;
+  const currency = resolveDisplayCurrency(view.displayCurrency, displayCurrency);
+  const matched = queryTickets(tickets, view, (ticket) => convertPrice(ticket.price, ticket.currency, currency));
+
+  const size = pageSize && pageSize > 0 ? Math.floor(pageSize) : DEFAULT_PAGE_SIZE;
+  if (mode === 'paged') {
+    const page = clampPage(view.page, countPages(matched.length, size));
+    return matched.slice((page - 1) * size, page * size);
+  }
+  return matched.slice(0, mode === 'infinite' ? size : MAX_STRUCTURED_EVENTS);
+}
+
+/**
+ * Events for the tickets shown by every TicketList and PricePanel on the
+ * page, including nested ones, as a single `@graph`. Run it after
+ * resolveTicketData so data source references are already tickets.
+ * Undefined when there are no events.
+ */
+export function pageStructuredData<B extends AnyBlock = Block>(
+  blocks: B[],
+  view: TicketView = defaultTicketView,
+  options: ResolveOptions = {}
+): JsonLd | undefined {
+  const events: JsonLd[] = [];
+
+  const collect = (list: B[]) => {
+    for (const block of list) {
+      if (!isPlainObject(block.props)) continue;
+      const fields = lookupSchema(block.type, options.registry) ?? {};
+      for (const [name, field] of Object.entries(fields)) {
+        if (field.kind === 'blocks' && Array.isArray(block.props[name])) {
+          collect(block.props[name] as B[]);
+        }
+      }
+      const tickets =
+        block.type === 'TicketList' ? listedTickets(block.props, view) :
+        block.type === 'PricePanel' && isPlainObject(block.props.ticket) ? [block.props.ticket as Ticket] :
+        [];
+      for (const ticket of tickets) {
+        const event = ticketEvent(ticket);
+        if (event) events.push(event);
+      }
+    }
+  };
+  collect(blocks);
+
+  return events.length > 0 ? { '@context': SCHEMA_ORG, '@graph': events } : undefined;
+}
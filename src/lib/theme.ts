@@ -0,0 +1,312 @@
+/**
+ * Theme
+ *
+ * Design tokens for colors, gradients, spacing, radii, typography and
+ * shadows. ThemeProvider writes a theme to CSS custom properties
+ * (`--color-primary`, `--radius-lg`, ...) and components style themselves
+ * with `vars`, which reference those properties. Components never see the
+ * theme object itself, so server components can be themed too, and a nested
+ * provider rethemes everything below it.
+ */
+
+export type ThemeTokens = {
+  color: {
+    background: string;
+    surface: string;
+    surfaceMuted: string;
+    surfaceHover: string;
+    text: string;
+    textStrong: string;
+    textSecondary: string;
+    textMuted: string;
+    border: string;
+    borderStrong: string;
+    primary: string;
+    primaryStrong: string;
+    primarySubtle: string;
+    onPrimary: string;
+    accent: string;
+    accentStrong: string;
+    accentSubtle: string;
+    info: string;
+    infoStrong: string;
+    infoSubtle: string;
+    warning: string;
+    warningStrong: string;
+    warningSubtle: string;
+    success: string;
+    successSubtle: string;
+    successBorder: string;
+    caution: string;
+    danger: string;
+    badge: string;
+    badgeText: string;
+    highlight: string;
+    footer: string;
+    footerText: string;
+    footerMuted: string;
+    footerSubtle: string;
+    footerBorder: string;
+  };
+  gradient: {
+    hero: string;
+    primary: string;
+    primaryHover: string;
+    accentBar: string;
+  };
+  space: {
+    xs: string;
+    sm: string;
+    md: string;
+    lg: string;
+    xl: string;
+    xxl: string;
+  };
+  radius: {
+    xs: string;
+    sm: string;
+    md: string;
+    lg: string;
+    xl: string;
+    xxl: string;
+    full: string;
+  };
+  font: {
+    family: string;
+    sizeXs: string;
+    sizeSm: string;
+    sizeMd: string;
+    sizeLg: string;
+    sizeXl: string;
+    weightMedium: string;
+    weightSemibold: string;
+    weightBold: string;
+    weightExtrabold: string;
+    lineHeight: string;
+  };
+  shadow: {
+    sm: string;
+    md: string;
+    lg: string;
+    popover: string;
+    focus: string;
+    primary: string;
+    primaryHover: string;
+    secondary: string;
+    secondaryHover: string;
+  };
+};
+
+export type ThemeGroup = keyof ThemeTokens;
+
+// Any subset of tokens, e.g. `{ color: { primary: "#e11d48" } }`
+export type ThemeOverrides = { [G in ThemeGroup]?: Partial<ThemeTokens[G]> };
+
+const space: ThemeTokens['space'] = {
+  xs: '0.25rem',
+  sm: '0.5rem',
+  md: '1rem',
+  lg: '1.5rem',
+  xl: '2rem',
+  xxl: '3rem',
+};
+
+const radius: ThemeTokens['radius'] = {
+  xs: '2px',
+  sm: '4px',
+  md: '6px',
+  lg: '8px',
+  xl: '12px',
+  xxl: '16px',
+  full: '9999px',
+};
+
+const font: ThemeTokens['font'] = {
+  family: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+  sizeXs: '0.75rem',
+  sizeSm: '0.875rem',
+  sizeMd: '1rem',
+  sizeLg: '1.125rem',
+  sizeXl: '1.25rem',
+  weightMedium: '500',
+  weightSemibold: '600',
+  weightBold: '700',
+  weightExtrabold: '800',
+  lineHeight: '1.6',
+};
+
+export const lightTheme: ThemeTokens = {
+  color: {
+    background: '#f8fafc',
+    surface: '#ffffff',
+    surfaceMuted: '#f9fafb',
+    surfaceHover: '#f3f4f6',
+    text: '#1f2937',
+    textStrong: '#111827',
+    textSecondary: '#374151',
+    textMuted: '#6b7280',
+    border: '#e5e7eb',
+    borderStrong: '#d1d5db',
+    primary: '#3b82f6',
+    primaryStrong: '#1d4ed8',
+    primarySubtle: '#eff6ff',
+    onPrimary: '#ffffff',
+    accent: '#8b5cf6',
+    accentStrong: '#5b21b6',
+    accentSubtle: '#f5f3ff',
+    info: '#0ea5e9',
+    infoStrong: '#0369a1',
+    infoSubtle: '#f0f9ff',
+    warning: '#f59e0b',
+    warningStrong: '#92400e',
+    warningSubtle: '#fef3c7',
+    success: '#059669',
+    successSubtle: '#ecfdf5',
+    successBorder: '#d1fae5',
+    caution: '#d97706',
+    danger: '#dc2626',
+    badge: '#eef2ff',
+    badgeText: '#4338ca',
+    highlight: '#fef08a',
+    footer: '#1f2937',
+    footerText: '#f9fafb',
+    footerMuted: '#d1d5db',
+    footerSubtle: '#9ca3af',
+    footerBorder: '#374151',
+  },
+  gradient: {
+    hero: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+    primary: 'linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%)',
+    primaryHover: 'linear-gradient(135deg, #2563eb 0%, #1e40af 100%)',
+    accentBar: 'linear-gradient(90deg, #3b82f6, #8b5cf6)',
+  },
+  space,
+  radius,
+  font,
+  shadow: {
+    sm: '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)',
+    md: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+    lg: '0 10px 25px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+    popover: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
+    focus: '0 0 0 3px rgba(59, 130, 246, 0.1)',
+    primary: '0 4px 14px rgba(59, 130, 246, 0.25)',
+    primaryHover: '0 8px 25px rgba(59, 130, 246, 0.4)',
+    secondary: '0 4px 14px rgba(0, 0, 0, 0.1)',
+    secondaryHover: '0 8px 25px rgba(0, 0, 0, 0.2)',
+  },
+};
+
+export const darkTheme: ThemeTokens = {
+  color: {
+    background: '#0b1120',
+    surface: '#111827',
+    surfaceMuted: '#1f2937',
+    surfaceHover: '#374151',
+    text: '#e5e7eb',
+    textStrong: '#f9fafb',
+    textSecondary: '#d1d5db',
+    textMuted: '#9ca3af',
+    border: '#374151',
+    borderStrong: '#4b5563',
+    primary: '#60a5fa',
+    primaryStrong: '#93c5fd',
+    primarySubtle: '#1e3a8a',
+    onPrimary: '#0b1120',
+    accent: '#a78bfa',
+    accentStrong: '#c4b5fd',
+    accentSubtle: '#2e1065',
+    info: '#38bdf8',
+    infoStrong: '#7dd3fc',
+    infoSubtle: '#082f49',
+    warning: '#fbbf24',
+    warningStrong: '#fcd34d',
+    warningSubtle: '#451a03',
+    success: '#34d399',
+    successSubtle: '#022c22',
+    successBorder: '#065f46',
+    caution: '#fbbf24',
+    danger: '#f87171',
+    badge: '#312e81',
+    badgeText: '#c7d2fe',
+    highlight: '#854d0e',
+    footer: '#030712',
+    footerText: '#f9fafb',
+    footerMuted: '#d1d5db',
+    footerSubtle: '#9ca3af',
+    footerBorder: '#1f2937',
+  },
+  gradient: {
+    hero: 'linear-gradient(135deg, #818cf8 0%, #c084fc 100%)',
+    primary: 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)',
+    primaryHover: 'linear-gradient(135deg, #60a5fa 0%, #3b82f6 100%)',
+    accentBar: 'linear-gradient(90deg, #60a5fa, #a78bfa)',
+  },
+  space,
+  radius,
+  font,
+  shadow: {
+    sm: '0 1px 3px 0 rgba(0, 0, 0, 0.5), 0 1px 2px 0 rgba(0, 0, 0, 0.3)',
+    md: '0 4px 6px -1px rgba(0, 0, 0, 0.5), 0 2px 4px -1px rgba(0, 0, 0, 0.3)',
+    lg: '0 10px 25px -3px rgba(0, 0, 0, 0.5), 0 4px 6px -2px rgba(0, 0, 0, 0.3)',
+    popover: '0 10px 15px -3px rgba(0, 0, 0, 0.5)',
+    focus: '0 0 0 3px rgba(96, 165, 250, 0.35)',
+    primary: '0 4px 14px rgba(59, 130, 246, 0.35)',
+    primaryHover: '0 8px 25px rgba(59, 130, 246, 0.5)',
+    secondary: '0 4px 14px rgba(0, 0, 0, 0.4)',
+    secondaryHover: '0 8px 25px rgba(0, 0, 0, 0.6)',
+  },
+};
+
+export const themes = { light: lightTheme, dark: darkTheme } as const;
+
+export type ThemeName = keyof typeof themes;
+
+export const themeNames = Object.keys(themes) as ThemeName[];
+
+export function isThemeName(value: unknown): value is ThemeName {
+  return themeNames.includes(value as ThemeName);
+}
+
+// `primaryStrong` in `color` -> `--color-primary-strong`
+export function cssVarName(group: ThemeGroup, token: string): string {
+  return `--${group}-${token.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+// A built-in theme with any overrides applied on top
+export function resolveTheme(name: ThemeName = 'light', overrides: ThemeOverrides = {}): ThemeTokens {
+  const base = themes[name];
+  const resolved = { ...base };
+  for (const group of Object.keys(base) as ThemeGroup[]) {
+    resolved[group] = { ...base[group], ...overrides[group] } as never;
+  }
+  return resolved;
+}
+
+// Custom properties for the given tokens, ready for a `style` prop
+export function themeCssVars(tokens: ThemeOverrides): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [group, values] of Object.entries(tokens) as [ThemeGroup, Record<string, string | undefined>][]) {
+    for (const [token, value] of Object.entries(values ?? {})) {
+      if (value !== undefined) properties[cssVarName(group, token)] = value;
+    }
+  }
+  return properties;
+}
+
+function references(): ThemeTokens {
+  const refs = {} as Record<ThemeGroup, Record<string, string>>;
+  for (const [group, values] of Object.entries(lightTheme) as [ThemeGroup, Record<string, string>][]) {
+    refs[group] = Object.fromEntries(
+      Object.entries(values).map(([token, fallback]) => [token, `var(${cssVarName(group, token)}, ${fallback})`])
+    );
+  }
+  return refs as ThemeTokens;
+}
+
+/**
+ * Token references for styles, e.g. `vars.color.primary` is
+ * `var(--color-primary, #3b82f6)`. The light value is the fallback, so a
+ * component rendered outside any ThemeProvider still looks right. CSS modules
+ * spell the same references out, so keep their fallbacks in step with lightTheme.
+ */
+export const vars: ThemeTokens = references();
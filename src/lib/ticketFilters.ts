@@ -0,0 +1,160 @@
+import type { Currency, Ticket } from '../types';
+import { isCurrencyCode } from './currencies';
+
+/**
+ * Ticket filters
+ *
+ * The facet state behind TicketList's filter panel, kept free of React so the
+ * same matching can run anywhere tickets are listed. Prices are compared in
+ * the display currency via `priceOf`; dates are calendar days at the venue.
+ */
+
+export type TicketFilters = {
+  categories: string[];   // empty = every category
+  minPrice?: number;      // in the display currency
+  maxPrice?: number;
+  currency?: Currency;    // the ticket's own currency
+  from?: string;          // YYYY-MM-DD, inclusive
+  to?: string;
+};
+
+export type TicketFacet = 'category' | 'price' | 'currency' | 'date';
+
+export type FacetCount = { value: string; count: number };
+
+type PriceOf = (ticket: Ticket) => number | undefined;
+
+export const noFilters: TicketFilters = { categories: [] };
+
+export function hasActiveFilters(filters: TicketFilters): boolean {
+  return (
+    filters.categories.length > 0 ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.currency !== undefined ||
+    filters.from !== undefined ||
+    filters.to !== undefined
+  );
+}
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar day (YYYY-MM-DD) the event starts on, in its own time zone
+export function eventDay(ticket: Ticket): string | undefined {
+  if (!ticket.startsAt) return undefined;
+  const date = new Date(ticket.startsAt);
+  if (isNaN(date.getTime())) return undefined;
+
+  const timeZone = ticket.timeZone ?? 'UTC';
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dayFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Whether a ticket passes every filter. `skip` leaves one facet out, which is
+ * how facet counts stay useful: the category counts reflect the price, currency
+ * and date filters but not the categories already ticked.
+ */
+export function matchesFilters(ticket: Ticket, filters: TicketFilters, priceOf: PriceOf, skip?: TicketFacet): boolean {
+  if (skip !== 'category' && filters.categories.length > 0) {
+    if (!ticket.category || !filters.categories.includes(ticket.category)) return false;
+  }
+
+  if (skip !== 'price' && (filters.minPrice !== undefined || filters.maxPrice !== undefined)) {
+    const price = priceOf(ticket);
+    if (price === undefined) return false;
+    if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+  }
+
+  if (skip !== 'currency' && filters.currency !== undefined && ticket.currency !== filters.currency) {
+    return false;
+  }
+
+  if (skip !== 'date' && (filters.from !== undefined || filters.to !== undefined)) {
+    const day = eventDay(ticket);
+    if (day === undefined) return false;
+    if (filters.from !== undefined && day < filters.from) return false;
+    if (filters.to !== undefined && day > filters.to) return false;
+  }
+
+  return true;
+}
+
+export function applyTicketFilters(tickets: Ticket[], filters: TicketFilters, priceOf: PriceOf): Ticket[] {
+  return hasActiveFilters(filters) ? tickets.filter((ticket) => matchesFilters(ticket, filters, priceOf)) : tickets;
+}
+
+// Distinct values with how many tickets have each, alphabetically
+export function countBy(tickets: Ticket[], valueOf: (ticket: Ticket) => string | undefined): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const ticket of tickets) {
+    const value = valueOf(ticket);
+    if (value !== undefined) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => a.value.localeCompare(b.value));
+}
+
+// Whole-unit bounds for the price slider
+export function priceBounds(tickets: Ticket[], priceOf: PriceOf): { min: number; max: number } | undefined {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const ticket of tickets) {
+    const price = priceOf(ticket);
+    if (price === undefined) continue;
+    min = Math.min(min, price);
+    max = Math.max(max, price);
+  }
+  return min <= max ? { min: Math.floor(min), max: Math.ceil(max) } : undefined;
+}
+
+// Query-string names; `category` holds a comma-separated list
+export const filterParamNames = ['category', 'minPrice', 'maxPrice', 'currency', 'from', 'to'] as const;
+
+export type FilterParamName = (typeof filterParamNames)[number];
+
+export function filtersToParams(filters: TicketFilters): Record<FilterParamName, string | null> {
+  return {
+    category: filters.categories.length > 0 ? filters.categories.join(',') : null,
+    minPrice: filters.minPrice !== undefined ? String(filters.minPrice) : null,
+    maxPrice: filters.maxPrice !== undefined ? String(filters.maxPrice) : null,
+    currency: filters.currency ?? null,
+    from: filters.from ?? null,
+    to: filters.to ?? null,
+  };
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Values that don't parse are ignored, so a hand-edited link still loads
+export function filtersFromParams(get: (name: FilterParamName) => string | null): TicketFilters {
+  const number = (name: FilterParamName) => {
+    const raw = get(name);
+    const value = raw === null || raw.trim() === '' ? NaN : Number(raw);
+    return Number.isFinite(value) ? value : undefined;
+  };
+  const day = (name: FilterParamName) => {
+    const raw = get(name);
+    return raw !== null && DAY.test(raw) ? raw : undefined;
+  };
+  const currency = get('currency');
+
+  const filters: TicketFilters = {
+    categories: (get('category') ?? '').split(',').map((value) => value.trim()).filter(Boolean),
+    minPrice: number('minPrice'),
+    maxPrice: number('maxPrice'),
+    currency: isCurrencyCode(currency) ? currency : undefined,
+    from: day('from'),
+    to: day('to'),
+  };
+  // Drop the keys that came out empty so filters compare cleanly
+  for (const key of Object.keys(filters) as (keyof TicketFilters)[]) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+  return filters;
+}
@@ -0,0 +1,35 @@
+import type { Ticket, TicketQuery } from '../types';
+import { transformTickets } from './transformTickets';
+import { generateMockRawTickets } from '../mockEvents';
+
+// Where TicketList data comes from; raw records always go through transformTickets
+export type TicketSource = {
+  getTickets(query?: TicketQuery): Promise<Ticket[]>;
+};
+
+export type TicketSources = Record<string, TicketSource>;
+
+export function applyTicketQuery(tickets: Ticket[], query: TicketQuery = {}): Ticket[] {
+  const ids = query.ids ? new Set(query.ids) : null;
+  const search = query.search?.trim().toLowerCase();
+
+  const matched = tickets.filter(ticket =>
+    (!ids || ids.has(ticket.id)) &&
+    (!search || ticket.title.toLowerCase().includes(search))
+  );
+  return query.limit !== undefined ? matched.slice(0, Math.max(0, query.limit)) : matched;
+}
+
+// Build a source from a loader returning raw (untrusted) ticket records
+export function createTicketSource(loadRaw: () => unknown | Promise<unknown>): TicketSource {
+  return {
+    async getTickets(query) {
+      const tickets = transformTickets(await loadRaw());
+      return applyTicketQuery(tickets, query);
+    },
+  };
+}
+
+export function createInMemoryTicketSource(records: unknown[] = generateMockRawTickets()): TicketSource {
+  return createTicketSource(() => records);
+}
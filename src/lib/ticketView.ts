@@ -0,0 +1,126 @@
+import type { Currency, Ticket } from '../types';
+import { isCurrencyCode } from './currencies';
+import { applyTicketFilters, filtersFromParams, filtersToParams, noFilters } from './ticketFilters';
+import type { TicketFilters } from './ticketFilters';
+import { createSearchIndex } from './search';
+import type { MatchRange, SearchIndex } from './search';
+
+/**
+ * Ticket view
+ *
+ * Everything about how a TicketList is viewed that lives in the query string
+ * (search, sort, display currency, filters, page), plus the search → filter →
+ * sort pipeline that turns it into a list. The page route runs the same code
+ * on the server that TicketList runs in the browser, so server HTML for
+ * `/?search=jazz&sort=price-desc` already shows the right tickets.
+ */
+
+export type TicketSort = 'relevance' | 'price-asc' | 'price-desc' | 'title-asc';
+
+export const ticketSorts: readonly TicketSort[] = ['price-asc', 'price-desc', 'title-asc', 'relevance'];
+
+export const DEFAULT_SORT: TicketSort = 'price-asc';
+
+export type TicketView = {
+  search: string;
+  sort: TicketSort;
+  // Unset means the TicketList's own `displayCurrency`
+  displayCurrency?: Currency;
+  filters: TicketFilters;
+  page: number;
+};
+
+export const defaultTicketView: TicketView = { search: '', sort: DEFAULT_SORT, filters: noFilters, page: 1 };
+
+type PriceOf = (ticket: Ticket) => number | undefined;
+
+export function isTicketSort(value: unknown): value is TicketSort {
+  return ticketSorts.includes(value as TicketSort);
+}
+
+// Tickets that can't be converted sort last in either direction
+const comparePrices = (a: number | undefined, b: number | undefined, direction: 1 | -1) => {
+  if (a === undefined) return b === undefined ? 0 : 1;
+  if (b === undefined) return -1;
+  return direction * (a - b);
+};
+
+// Sort comparators map for O(1) dispatch; prices are compared in the display currency
+const sortComparators = {
+  'price-asc': (priceOf: PriceOf) => (a: Ticket, b: Ticket) => comparePrices(priceOf(a), priceOf(b), 1),
+  'price-desc': (priceOf: PriceOf) => (a: Ticket, b: Ticket) => comparePrices(priceOf(a), priceOf(b), -1),
+  'title-asc': () => (a: Ticket, b: Ticket) => a.title.localeCompare(b.title),
+  // Search results arrive ranked; a stable sort with no preference keeps that order
+  relevance: () => () => 0,
+} as const;
+
+// Sorted copy
+export function sortTickets(tickets: Ticket[], sort: TicketSort, priceOf: PriceOf): Ticket[] {
+  return [...tickets].sort(sortComparators[sort](priceOf));
+}
+
+// Titles are what the search box matches
+export function createTicketSearchIndex(tickets: Ticket[]): SearchIndex<Ticket> {
+  return createSearchIndex(tickets, (ticket) => ticket.title);
+}
+
+export type TicketSearchResult = {
+  tickets: Ticket[];
+  // Matched parts of each title, by ticket id
+  highlights: Map<string, MatchRange[]>;
+};
+
+// Best match first; a blank search keeps every ticket in its original order
+export function searchTickets(index: SearchIndex<Ticket>, tickets: Ticket[], search: string): TicketSearchResult {
+  if (!search.trim()) return { tickets, highlights: new Map() };
+  const hits = index.search(search);
+  return {
+    tickets: hits.map((hit) => hit.item),
+    highlights: new Map(hits.map((hit) => [hit.item.id, hit.ranges])),
+  };
+}
+
+/**
+ * The full pipeline for one view: search, then facet filters, then sort.
+ * TicketList runs the same steps in separate memos so it can reuse the
+ * search results for facet counts.
+ */
+export function queryTickets(tickets: Ticket[], view: Pick<TicketView, 'search' | 'sort' | 'filters'>, priceOf: PriceOf): Ticket[] {
+  const searched = searchTickets(createTicketSearchIndex(tickets), tickets, view.search).tickets;
+  return sortTickets(applyTicketFilters(searched, view.filters, priceOf), view.sort, priceOf);
+}
+
+export type ParamGetter = (name: string) => string | null;
+
+// Next passes repeated params as arrays; the first value wins
+export function paramGetter(params: Record<string, string | string[] | undefined>): ParamGetter {
+  return (name) => {
+    const value = params[name];
+    return (Array.isArray(value) ? value[0] : value) ?? null;
+  };
+}
+
+// Values that don't parse fall back to the defaults, like filtersFromParams
+export function ticketViewFromParams(get: ParamGetter): TicketView {
+  const sort = get('sort');
+  const display = get('display');
+  const page = Number(get('page'));
+  const view: TicketView = {
+    search: get('search') ?? '',
+    sort: isTicketSort(sort) ? sort : DEFAULT_SORT,
+    filters: filtersFromParams(get),
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+  if (isCurrencyCode(display)) view.displayCurrency = display;
+  return view;
+}
+
+// Params TicketList owns (SearchBar writes ?search itself); defaults are left out of the URL
+export function ticketViewToParams(view: Omit<TicketView, 'search'>): Record<string, string | null> {
+  return {
+    ...filtersToParams(view.filters),
+    sort: view.sort !== DEFAULT_SORT ? view.sort : null,
+    display: view.displayCurrency ?? null,
+    page: view.page > 1 ? String(view.page) : null,
+  };
+}
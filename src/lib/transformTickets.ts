@@ -1,43 +1,158 @@
 import { RawTicket, Ticket } from '../types';
+import { fromMinorUnits, isCurrencyCode } from './currencies';
+import type { CurrencyCode } from './currencies';
 
-function normalizeTitle(title: unknown): string {
+// A coerced or dropped record; index -1 refers to the input as a whole
+export type TicketReportEntry = {
+  index: number;
+  id?: string;
+  reason: string;
+};
+
+export type TicketTransformReport = {
+  tickets: Ticket[];
+  // Kept, but with a defaulted or corrected field
+  warnings: TicketReportEntry[];
+  // Dropped from `tickets`
+  rejected: TicketReportEntry[];
+};
+
+type Coerced<T> = { value: T; warning?: string };
+
+function normalizeTitle(title: unknown): Coerced<string> {
   if (typeof title !== 'string' || title.trim() === '') {
-    return 'Untitled';
+    return { value: 'Untitled', warning: 'missing title, defaulted to "Untitled"' };
   }
-  return title;
+  return { value: title };
 }
 
-function normalizeCurrency(currency: unknown): 'USD' | 'EUR' | 'GBP' {
-  if (currency === 'USD' || currency === 'EUR' || currency === 'GBP') {
-    return currency;
+// Missing currencies default to USD; unknown ones are rejected, since guessing misprices the ticket
+function normalizeCurrency(currency: unknown): Coerced<CurrencyCode> | { error: string } {
+  if (currency === null || currency === undefined) {
+    return { value: 'USD', warning: 'missing currency, defaulted to USD' };
+  }
+  if (isCurrencyCode(currency)) {
+    return { value: currency };
   }
-  return 'USD';
+  if (typeof currency === 'string' && isCurrencyCode(currency.trim().toUpperCase())) {
+    const code = currency.trim().toUpperCase() as CurrencyCode;
+    return { value: code, warning: `currency ${JSON.stringify(currency)} normalized to ${code}` };
+  }
+  return { error: `unknown currency ${JSON.stringify(currency)}` };
 }
 
-function normalizePrice(price_cents: unknown): number {
+// `price_cents` holds minor units, whatever the currency's minor unit is
+function normalizePrice(price_cents: unknown, currency: CurrencyCode): Coerced<number> {
   if (typeof price_cents === 'number' && !isNaN(price_cents)) {
-    return price_cents / 100;
+    return { value: fromMinorUnits(price_cents, currency) };
   }
-  return 0;
+  return { value: 0, warning: 'invalid price_cents, defaulted to 0' };
 }
 
-export function transformTickets(input: unknown): Ticket[] {
+// An explicit offset (Z or ±hh:mm) is required; without one the instant is ambiguous
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+
+function normalizeStartsAt(startsAt: unknown): Coerced<Date | undefined> {
+  if (startsAt === null || startsAt === undefined) return { value: undefined };
+  if (typeof startsAt !== 'string' || !ISO_DATE_TIME.test(startsAt.trim())) {
+    return { value: undefined, warning: `starts_at ${JSON.stringify(startsAt)} is not an ISO 8601 date-time with a UTC offset, dropped` };
+  }
+  const date = new Date(startsAt.trim());
+  if (isNaN(date.getTime())) {
+    return { value: undefined, warning: `starts_at ${JSON.stringify(startsAt)} is not a valid date, dropped` };
+  }
+  return { value: date };
+}
+
+function normalizeTimeZone(timeZone: unknown): Coerced<string | undefined> {
+  if (timeZone === null || timeZone === undefined) return { value: undefined };
+  if (typeof timeZone === 'string') {
+    try {
+      // Throws a RangeError for zones the runtime doesn't know
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return { value: timeZone };
+    } catch {
+      // fall through
+    }
+  }
+  return { value: undefined, warning: `unknown timezone ${JSON.stringify(timeZone)}, dropped` };
+}
+
+// Optional free-text fields; numbers are accepted for seat labels such as row 12
+function normalizeText(field: string, text: unknown, allowNumber = false): Coerced<string | undefined> {
+  if (text === null || text === undefined) return { value: undefined };
+  if (allowNumber && typeof text === 'number' && Number.isFinite(text)) return { value: String(text) };
+  if (typeof text === 'string') {
+    return text.trim() === '' ? { value: undefined } : { value: text.trim() };
+  }
+  return { value: undefined, warning: `invalid ${field}, dropped` };
+}
+
+function normalizeQuantity(quantity: unknown): Coerced<number | undefined> {
+  if (quantity === null || quantity === undefined) return { value: undefined };
+  if (typeof quantity === 'number' && Number.isInteger(quantity) && quantity >= 0) return { value: quantity };
+  return { value: undefined, warning: `quantity_available ${JSON.stringify(quantity)} is not a non-negative integer, dropped` };
+}
+
+/**
+ * Normalize untrusted ticket records, reporting every record that was
+ * coerced (`warnings`) or dropped (`rejected`) so ingestion jobs can alert on
+ * bad upstream data.
+ */
+export function transformTicketsWithReport(input: unknown): TicketTransformReport {
+  const report: TicketTransformReport = { tickets: [], warnings: [], rejected: [] };
+
   if (!Array.isArray(input)) {
-    return [];
-  }
-  
-  return input
-    .filter((item): item is RawTicket => 
-      typeof item === 'object' && 
-      item !== null && 
-      'id' in item && 
-      item.id !== null && 
-      item.id !== undefined
-    )
-    .map((item): Ticket => ({
-      id: String(item.id),
-      title: normalizeTitle(item.title),
-      price: normalizePrice(item.price_cents),
-      currency: normalizeCurrency(item.currency),
-    }));
-}
\ No newline at end of file
+    report.rejected.push({ index: -1, reason: 'expected an array of ticket records' });
+    return report;
+  }
+
+  input.forEach((item: unknown, index) => {
+    if (typeof item !== 'object' || item === null) {
+      report.rejected.push({ index, reason: 'not an object' });
+      return;
+    }
+
+    const raw = item as RawTicket;
+    if (raw.id === null || raw.id === undefined) {
+      report.rejected.push({ index, reason: 'missing id' });
+      return;
+    }
+
+    const id = String(raw.id);
+    const currency = normalizeCurrency(raw.currency);
+    if ('error' in currency) {
+      report.rejected.push({ index, id, reason: currency.error });
+      return;
+    }
+
+    const title = normalizeTitle(raw.title);
+    const price = normalizePrice(raw.price_cents, currency.value);
+    const details = {
+      startsAt: normalizeStartsAt(raw.starts_at),
+      timeZone: normalizeTimeZone(raw.timezone),
+      venue: normalizeText('venue', raw.venue),
+      city: normalizeText('city', raw.city),
+      category: normalizeText('category', raw.category),
+      quantityAvailable: normalizeQuantity(raw.quantity_available),
+      section: normalizeText('section', raw.section, true),
+      row: normalizeText('row', raw.row, true),
+    };
+    for (const field of [title, currency, price, ...Object.values(details)]) {
+      if (field.warning) report.warnings.push({ index, id, reason: field.warning });
+    }
+
+    const ticket: Ticket = { id, title: title.value, price: price.value, currency: currency.value };
+    // Optional fields only appear when present
+    for (const [key, field] of Object.entries(details)) {
+      if (field.value !== undefined) Object.assign(ticket, { [key]: field.value });
+    }
+    report.tickets.push(ticket);
+  });
+
+  return report;
+}
+
+export function transformTickets(input: unknown): Ticket[] {
+  return transformTicketsWithReport(input).tickets;
+}
@@ -0,0 +1,34 @@
+// Query-string helpers shared by components that sync state to the URL.
+// Both are no-ops during SSR and fail silently where window.location is unusable.
+
+export function readUrlParam(name: string): string | null {
+  if (typeof window === 'undefined' || !window.location) return null;
+  try {
+    return new URLSearchParams(window.location.search).get(name);
+  } catch {
+    return null;
+  }
+}
+
+// Set (or, for empty values, remove) a param without reloading or adding a history entry
+export function writeUrlParam(name: string, value: string | null) {
+  writeUrlParams({ [name]: value });
+}
+
+// Several params in one history update
+export function writeUrlParams(values: Record<string, string | null>) {
+  if (typeof window === 'undefined' || !window.location) return;
+  try {
+    const url = new URL(window.location.href);
+    for (const [name, value] of Object.entries(values)) {
+      if (value) {
+        url.searchParams.set(name, value);
+      } else {
+        url.searchParams.delete(name);
+      }
+    }
+    window.history.replaceState({}, '', url.toString());
+  } catch {
+    // Silently fail in test environment
+  }
+}
@@ -0,0 +1,295 @@
+import type { Block, PageDoc, PageRevision, PageSeo, PageTheme } from '../types';
+import type { AnyBlock, Registry } from '../registry';
+import { blockBaseSchema, blockSchemas } from '../blockSchemas';
+import {
+  checkObject,
+  checkValue,
+  formatIssue,
+  isPlainObject,
+  PropSchema,
+  ValidationIssue,
+} from './propSchema';
+import { lightTheme, themeNames } from './theme';
+import { isTimestamp, pageStatuses } from './publishing';
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export type ValidateOptions = {
+  // strict: throw on any issue; lenient: drop or repair bad blocks (default)
+  mode?: ValidationMode;
+  // look up prop schemas in this registry instead of the built-in block schemas
+  registry?: Pick<Registry<AnyBlock>, 'get'>;
+};
+
+export type ValidationResult<T> = {
+  value: T;
+  issues: ValidationIssue[];
+};
+
+export class PageDocValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid page document:\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'PageDocValidationError';
+    this.issues = issues;
+  }
+}
+
+type SchemaLookup = (type: string) => Record<string, PropSchema> | undefined;
+
+// Anchor ids end up in URLs (`#tickets`), so they stay plain
+const ANCHOR_ID = /^[a-z][\w-]*$/i;
+
+export const seoSchema: PropSchema = {
+  kind: 'object',
+  fields: {
+    title: { kind: 'string' },
+    description: { kind: 'string' },
+    canonical: { kind: 'string' },
+    ogImage: { kind: 'string' },
+    noindex: { kind: 'boolean' },
+  },
+};
+
+// Every token is an optional string, grouped like ThemeTokens
+const themeSchema: PropSchema = {
+  kind: 'object',
+  fields: {
+    name: { kind: 'string', enum: themeNames },
+    overrides: {
+      kind: 'object',
+      fields: Object.fromEntries(
+        Object.entries(lightTheme).map(([group, tokens]): [string, PropSchema] => [
+          group,
+          { kind: 'object', fields: Object.fromEntries(Object.keys(tokens).map((token) => [token, { kind: 'string' }])) },
+        ])
+      ),
+    },
+  },
+};
+
+// Status, schedule and save bookkeeping; like a block's base fields, bad ones are dropped
+const publishingSchema: Record<string, PropSchema> = {
+  status: { kind: 'string', enum: pageStatuses },
+  publishAt: { kind: 'string' },
+  unpublishAt: { kind: 'string' },
+  revision: { kind: 'number' },
+  savedAt: { kind: 'string' },
+};
+
+function checkPublishing(input: Record<string, unknown>): { value: Record<string, unknown>; issues: ValidationIssue[] } {
+  const fields = Object.keys(publishingSchema);
+  const checked = checkObject(input, publishingSchema, '');
+  const issues = [...checked.issues];
+  const own = checked.value as Record<string, unknown>;
+  const value = Object.fromEntries(fields.flatMap((name) => (name in own ? [[name, own[name]]] : [])));
+
+  for (const name of ['publishAt', 'unpublishAt', 'savedAt']) {
+    if (typeof value[name] === 'string' && !isTimestamp(value[name])) {
+      issues.push({ path: name, message: 'expected an ISO 8601 date-time with a UTC offset' });
+      delete value[name];
+    }
+  }
+  // Left in place: without publishAt a scheduled page just never goes live
+  if (value.status === 'scheduled' && value.publishAt === undefined) {
+    issues.push({ path: 'publishAt', message: 'required when status is "scheduled"' });
+  }
+  if (
+    typeof value.publishAt === 'string' &&
+    typeof value.unpublishAt === 'string' &&
+    Date.parse(value.unpublishAt) <= Date.parse(value.publishAt)
+  ) {
+    issues.push({ path: 'unpublishAt', message: 'expected a time after publishAt' });
+  }
+  return { value, issues };
+}
+
+// Earlier saves are page docs themselves; unusable entries are dropped, as is any history nested in them
+function checkRevisions<B extends AnyBlock>(
+  input: unknown,
+  options: ValidateOptions
+): { value?: PageRevision<B>[]; issues: ValidationIssue[] } {
+  if (input === undefined || input === null) return { issues: [] };
+  if (!Array.isArray(input)) return { issues: [{ path: 'revisions', message: 'expected array' }] };
+
+  const issues: ValidationIssue[] = [];
+  const value: PageRevision<B>[] = [];
+  input.forEach((item, idx) => {
+    const path = `revisions[${idx}]`;
+    if (!isPlainObject(item)) {
+      issues.push({ path, message: 'expected object' });
+      return;
+    }
+    const checked = validatePageDoc<B>({ ...item, revisions: undefined }, { ...options, mode: 'lenient' });
+    issues.push(...checked.issues.map((issue) => ({ ...issue, path: `${path}.${issue.path}` })));
+    value.push(checked.value);
+  });
+  return { value, issues };
+}
+
+// Prop schema for a block type, from the given registry or the built-in schemas
+export function lookupSchema(
+  type: string,
+  registry?: ValidateOptions['registry']
+): Record<string, PropSchema> | undefined {
+  if (registry) {
+    return registry.get(type)?.schema as Record<string, PropSchema> | undefined;
+  }
+  return Object.prototype.hasOwnProperty.call(blockSchemas, type)
+    ? (blockSchemas[type as Block['type']] as Record<string, PropSchema>)
+    : undefined;
+}
+
+function schemaLookup(registry: ValidateOptions['registry']): SchemaLookup {
+  return (type) => lookupSchema(type, registry);
+}
+
+function validateBlock<B extends AnyBlock>(
+  input: unknown,
+  path: string,
+  lookup: SchemaLookup
+): { block?: B; issues: ValidationIssue[] } {
+  if (!isPlainObject(input)) {
+    return { issues: [{ path, message: 'expected object' }] };
+  }
+  if (typeof input.type !== 'string' || input.type === '') {
+    return { issues: [{ path: `${path}.type`, message: 'required' }] };
+  }
+  const fields = lookup(input.type);
+  if (!fields) {
+    return { issues: [{ path: `${path}.type`, message: `unknown block type "${input.type}"` }] };
+  }
+
+  const props = input.props ?? {};
+  if (!isPlainObject(props)) {
+    return { issues: [{ path: `${path}.props`, message: 'expected object' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  // Base fields are all optional, so bad ones are dropped and the block is kept
+  const base = checkObject(input, blockBaseSchema as Record<string, PropSchema>, path);
+  issues.push(...base.issues);
+  const block = base.value as Record<string, unknown>;
+  if (input.id !== undefined && (typeof input.id !== 'string' || input.id === '')) {
+    issues.push({ path: `${path}.id`, message: 'expected non-empty string' });
+    delete block.id;
+  }
+  if (typeof block.anchorId === 'string' && !ANCHOR_ID.test(block.anchorId)) {
+    issues.push({ path: `${path}.anchorId`, message: 'expected a letter followed by letters, digits, "-" or "_"' });
+    delete block.anchorId;
+  }
+
+  const checked = checkObject(props, fields, `${path}.props`, {
+    blocks: (children, childPath) => {
+      const nested = validateBlocksAt(children, childPath, 'lenient', lookup);
+      return { ok: true, value: nested.value, issues: nested.issues };
+    },
+  });
+  issues.push(...checked.issues);
+  if (!checked.ok) {
+    return { issues };
+  }
+  // Both are optional on their own, but a TicketList with neither has nothing to list
+  const checkedProps = checked.value as Record<string, unknown>;
+  if (input.type === 'TicketList' && checkedProps.tickets === undefined && checkedProps.source === undefined) {
+    issues.push({ path: `${path}.props`, message: 'expected tickets or source' });
+  }
+  return {
+    block: { ...block, props: checkedProps } as B,
+    issues,
+  };
+}
+
+function finish<T>(value: T, issues: ValidationIssue[], mode: ValidationMode): ValidationResult<T> {
+  if (mode === 'strict' && issues.length > 0) {
+    throw new PageDocValidationError(issues);
+  }
+  return { value, issues };
+}
+
+export function validateBlocks<B extends AnyBlock = Block>(
+  input: unknown,
+  options: ValidateOptions = {}
+): ValidationResult<B[]> {
+  return validateBlocksAt<B>(input, 'blocks', options.mode ?? 'lenient', schemaLookup(options.registry));
+}
+
+function validateBlocksAt<B extends AnyBlock>(
+  input: unknown,
+  path: string,
+  mode: ValidationMode,
+  lookup: SchemaLookup
+): ValidationResult<B[]> {
+  if (!Array.isArray(input)) {
+    return finish([], [{ path, message: 'expected array' }], mode);
+  }
+
+  const blocks: B[] = [];
+  const issues: ValidationIssue[] = [];
+  input.forEach((item, idx) => {
+    const result = validateBlock<B>(item, `${path}[${idx}]`, lookup);
+    issues.push(...result.issues);
+    if (result.block) blocks.push(result.block);
+  });
+
+  return finish(blocks, issues, mode);
+}
+
+export function validatePageDoc<B extends AnyBlock = Block>(
+  input: unknown,
+  options: ValidateOptions = {}
+): ValidationResult<PageDoc<B>> {
+  const mode = options.mode ?? 'lenient';
+
+  if (!isPlainObject(input)) {
+    return finish({ blocks: [] }, [{ path: '', message: 'expected object' }], mode);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const title = checkValue(input.pageTitle, { kind: 'string' }, 'pageTitle');
+  issues.push(...title.issues);
+
+  const seo = checkValue(input.seo, seoSchema, 'seo');
+  issues.push(...seo.issues);
+
+  const theme = checkValue(input.theme, themeSchema, 'theme');
+  issues.push(...theme.issues);
+
+  const publishing = checkPublishing(input);
+  issues.push(...publishing.issues);
+
+  const revisions = checkRevisions<B>(input.revisions, options);
+  issues.push(...revisions.issues);
+
+  const blocks = validateBlocksAt<B>(input.blocks, 'blocks', 'lenient', schemaLookup(options.registry));
+  issues.push(...blocks.issues);
+
+  const doc: PageDoc<B> = { ...input, blocks: blocks.value };
+  if (typeof title.value === 'string') {
+    doc.pageTitle = title.value;
+  } else {
+    delete doc.pageTitle;
+  }
+  if (seo.value !== undefined) {
+    doc.seo = seo.value as PageSeo;
+  } else {
+    delete doc.seo;
+  }
+  if (theme.value !== undefined) {
+    doc.theme = theme.value as PageTheme;
+  } else {
+    delete doc.theme;
+  }
+  for (const name of Object.keys(publishingSchema)) {
+    delete doc[name as keyof PageDoc<B>];
+  }
+  Object.assign(doc, publishing.value);
+  if (revisions.value !== undefined) {
+    doc.revisions = revisions.value;
+  } else {
+    delete doc.revisions;
+  }
+
+  return finish(doc, issues, mode);
+}
@@ -0,0 +1,47 @@
+// Pure helpers behind VirtualList: row offsets and the window of rows to mount
+
+/**
+ * Top offset of every row plus the total height as the last entry, so row `i`
+ * spans `offsets[i]` to `offsets[i + 1]`.
+ */
+export function computeOffsets(count: number, sizeOf: (index: number) => number): number[] {
+  const offsets = new Array<number>(count + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i]! + sizeOf(i);
+  }
+  return offsets;
+}
+
+// Index of the row containing `position` (binary search over the offsets)
+export function rowAt(offsets: number[], position: number): number {
+  const count = offsets.length - 1;
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (offsets[mid + 1]! <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.max(0, low);
+}
+
+// Rows intersecting the viewport, widened by `overscan` rows each side; `end` is exclusive
+export function visibleRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number
+): { start: number; end: number } {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const first = rowAt(offsets, scrollTop);
+  const last = rowAt(offsets, scrollTop + viewportHeight - 1);
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + 1 + overscan),
+  };
+}
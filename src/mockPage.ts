@@ -1,8 +1,13 @@
 import type { PageDoc } from "./types";
 import { generateMockTickets } from "./mockEvents";
 
+// Generate a larger dataset for the TicketList component
+export const mockTickets = generateMockTickets();
+
+const pageTitle = "Concert Deals";
+
 export const demoPage: PageDoc = {
-  pageTitle: "Concert Deals",
+  pageTitle,
   blocks: [
     { type: "Hero", props: { title: "Hot Tickets Tonight", subtitle: "Save up to 40%" } },
     {
@@ -10,7 +15,7 @@ export const demoPage: PageDoc = {
       props: {
         items: [
           { title: "Knicks vs. Nets", price: 89 },
-          { title: "Taylor Swift Eras Tour", price: 245, href: "/events/tswift" },
+          { title: "Taylor Swift Eras Tour", price: 245, href: "/events/51" },
         ],
       },
     },
@@ -18,5 +23,41 @@ export const demoPage: PageDoc = {
   ],
 };
 
-// Generate a larger dataset for the TicketList component
-export const mockTickets = generateMockTickets();
\ No newline at end of file
+// The full showcase page, footer included, as a single document
+export const showcasePage: PageDoc = {
+  pageTitle,
+  seo: {
+    title: "Component Registry Showcase",
+    description: "Concert, sports and theater tickets, rendered from a single page document through a type-safe component registry.",
+    canonical: "/",
+  },
+  blocks: [
+    {
+      type: "Section",
+      props: {
+        as: "main",
+        children: [
+          // The page title heading, as the hand-built page had it
+          { type: "Hero", props: { title: pageTitle } },
+          ...demoPage.blocks,
+          {
+            type: "Section",
+            props: {
+              title: "All Available Events",
+              variant: "card",
+              children: [{ type: "TicketList", props: { source: "events", mode: "paged", pageSize: 20 } }],
+            },
+          },
+        ],
+      },
+    },
+    {
+      type: "Footer",
+      props: {
+        title: "Component Registry Showcase",
+        tagline: "Built with Next.js, React, TypeScript, and modern web technologies",
+        badges: ["🚀 Next.js 15", "⚛️ React 19", "📘 TypeScript 5.9", "🧪 Jest Testing", "🎨 Modern UI"],
+      },
+    },
+  ],
+};
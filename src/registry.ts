@@ -2,32 +2,189 @@
  * Registry
  */
 
-import type { ComponentType } from "react";
-import type { Block, HeroBlock, CardListBlock, CTABlock, SearchBarBlock, TicketListBlock } from "./types";
+import type { ReactNode } from "react";
+import type { Block, BlockBase, BlockComponent, ColumnsBlock, GridBlock, SectionBlock, TabsBlock, TicketListBlock } from "./types";
+import type { PropSchema, PropsSchema } from "./lib/propSchema";
+import { blockSchemas } from "./blockSchemas";
 import Hero from "./components/Hero";
 import CardList from "./components/CardList";
 import CTA from "./components/CTA";
 import SearchBar from "./components/SearchBar";
 import TicketList from "./components/TicketList";
+import PricePanel from "./components/PricePanel";
+import Footer from "./components/Footer";
+import Section from "./components/Section";
+import Grid from "./components/Grid";
+import Columns from "./components/Columns";
+import Tabs from "./components/Tabs";
 
-type ComponentMap = {
-  Hero: ComponentType<HeroBlock["props"]>;
-  CardList: ComponentType<CardListBlock["props"]>;
-  CTA: ComponentType<CTABlock["props"]>;
-  SearchBar: ComponentType<SearchBarBlock["props"]>;
-  TicketList: ComponentType<TicketListBlock["props"]>;
+export type AnyBlock = BlockBase & { type: string; props: unknown };
+
+export type BlockMeta = {
+  label?: string;
+  description?: string;
+  category?: string;
+};
+
+// Props a block component receives: nested `children` blocks arrive already rendered
+export type RenderedProps<P> = P extends { children: unknown }
+  ? Omit<P, "children"> & { children?: ReactNode }
+  : P;
+
+export type BlockDefinition<T extends string, P> = {
+  type: T;
+  component: BlockComponent<P> | BlockComponent<RenderedProps<P>>;
+  defaultProps?: Partial<P>;
+  schema: PropsSchema<P>;
+  meta?: BlockMeta;
 };
 
-export const registry: ComponentMap = {
-  Hero,
-  CardList,
-  CTA,
-  SearchBar,
-  TicketList,
+// Any definition, with its props type erased: registries hand these back, and
+// props are checked against `schema` before they reach `component`
+export type AnyBlockDefinition = {
+  type: string;
+  component: BlockComponent<never>;
+  defaultProps?: Record<string, unknown>;
+  schema: Record<string, PropSchema | undefined>;
+  meta?: BlockMeta;
+};
+
+// Block shape described by a definition, e.g. { type: "Hero"; props: {...} }
+export type BlockOf<D> = D extends BlockDefinition<infer T, infer P> ? BlockBase & { type: T; props: P } : never;
+
+// Block union accepted by a registry instance
+export type RegistryBlock<R> = R extends Registry<infer B> ? B : never;
+
+/**
+ * Registries are immutable: registering or unregistering a block returns a new
+ * registry, so an existing reference keeps both its blocks and its type.
+ */
+export type Registry<B extends AnyBlock = Block> = {
+  registerBlock<T extends string, P>(definition: BlockDefinition<T, P>): Registry<B | (BlockBase & { type: T; props: P })>;
+  unregisterBlock<T extends B["type"]>(type: T): Registry<Exclude<B, { type: T }>>;
+  get(type: string): AnyBlockDefinition | undefined;
+  has(type: string): boolean;
+  types(): Array<B["type"]>;
+  definitions(): AnyBlockDefinition[];
 };
 
-// Helper to narrow a Block to its props type for a given key
-export function getComponentAndProps(block: Block) {
-  const Comp = registry[block.type];
-  return { Comp, props: block.props as any }; // safe due to discriminated union
-}
\ No newline at end of file
+export function defineBlock<T extends string, P>(definition: BlockDefinition<T, P>): BlockDefinition<T, P> {
+  return definition;
+}
+
+function registryOf<B extends AnyBlock>(definitions: readonly AnyBlockDefinition[]): Registry<B> {
+  const entries = new Map<string, AnyBlockDefinition>();
+  for (const definition of definitions) {
+    if (entries.has(definition.type)) {
+      throw new Error(`Block "${definition.type}" is already registered`);
+    }
+    entries.set(definition.type, definition);
+  }
+  const list = () => Array.from(entries.values());
+
+  return {
+    registerBlock: <T extends string, P>(definition: BlockDefinition<T, P>) =>
+      registryOf<B | (BlockBase & { type: T; props: P })>([...list(), definition]),
+    unregisterBlock: <T extends B["type"]>(type: T) =>
+      registryOf<Exclude<B, { type: T }>>(list().filter((definition) => definition.type !== type)),
+    get: (type) => entries.get(type),
+    has: (type) => entries.has(type),
+    types: () => Array.from(entries.keys()),
+    definitions: list,
+  };
+}
+
+export function createRegistry<D extends readonly AnyBlockDefinition[] = []>(
+  definitions: D = [] as unknown as D
+): Registry<BlockOf<D[number]>> {
+  return registryOf<BlockOf<D[number]>>(definitions);
+}
+
+export const builtinBlocks = [
+  defineBlock({
+    type: "Hero",
+    component: Hero,
+    schema: blockSchemas.Hero,
+    meta: { label: "Hero", category: "Content" },
+  }),
+  defineBlock({
+    type: "CardList",
+    component: CardList,
+    defaultProps: { items: [] },
+    schema: blockSchemas.CardList,
+    meta: { label: "Card list", category: "Content" },
+  }),
+  defineBlock({
+    type: "CTA",
+    component: CTA,
+    defaultProps: { variant: "primary" },
+    schema: blockSchemas.CTA,
+    meta: { label: "Call to action", category: "Content" },
+  }),
+  defineBlock({
+    type: "SearchBar",
+    component: SearchBar,
+    schema: blockSchemas.SearchBar,
+    meta: { label: "Search bar", category: "Commerce" },
+  }),
+  defineBlock<"TicketList", TicketListBlock["props"]>({
+    type: "TicketList",
+    component: TicketList,
+    schema: blockSchemas.TicketList,
+    meta: { label: "Ticket list", category: "Commerce" },
+  }),
+  defineBlock({
+    type: "PricePanel",
+    component: PricePanel,
+    schema: blockSchemas.PricePanel,
+    meta: { label: "Price panel", category: "Commerce" },
+  }),
+  defineBlock({
+    type: "Footer",
+    component: Footer,
+    schema: blockSchemas.Footer,
+    meta: { label: "Footer", category: "Content" },
+  }),
+  defineBlock<"Section", SectionBlock["props"]>({
+    type: "Section",
+    component: Section,
+    defaultProps: { children: [] },
+    schema: blockSchemas.Section,
+    meta: { label: "Section", category: "Layout" },
+  }),
+  defineBlock<"Grid", GridBlock["props"]>({
+    type: "Grid",
+    component: Grid,
+    defaultProps: { children: [] },
+    schema: blockSchemas.Grid,
+    meta: { label: "Grid", category: "Layout" },
+  }),
+  defineBlock<"Columns", ColumnsBlock["props"]>({
+    type: "Columns",
+    component: Columns,
+    defaultProps: { children: [] },
+    schema: blockSchemas.Columns,
+    meta: { label: "Columns", category: "Layout" },
+  }),
+  defineBlock<"Tabs", TabsBlock["props"]>({
+    type: "Tabs",
+    component: Tabs,
+    defaultProps: { labels: [], children: [] },
+    schema: blockSchemas.Tabs,
+    meta: { label: "Tabs", category: "Layout" },
+  }),
+];
+
+// Default registry with the built-in blocks
+export const registry: Registry<Block> = createRegistry(builtinBlocks);
+
+// Helper to look up a block's component and merge its default props
+export function getComponentAndProps<B extends AnyBlock>(block: B, source: Registry<B> = registry as unknown as Registry<B>) {
+  const definition = source.get(block.type);
+  if (!definition) {
+    return { Comp: undefined, props: block.props };
+  }
+  // The block's props match the definition it was looked up by, so the component can take them
+  const Comp = definition.component as BlockComponent<Record<string, unknown>>;
+  return { Comp, props: { ...definition.defaultProps, ...(block.props as object) } };
+}
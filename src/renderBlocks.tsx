@@ -2,19 +2,89 @@
  * Render blocks
  */
 
+import { Suspense } from "react";
 import type { Block } from "./types";
-import { getComponentAndProps } from "./registry";
+import { getComponentAndProps, registry as defaultRegistry } from "./registry";
+import type { AnyBlock, Registry } from "./registry";
+import type { PropSchema } from "./lib/propSchema";
+import { createBlockIdGenerator } from "./lib/blockIds";
+import type { BlockPosition } from "./lib/blockIds";
+import BlockErrorBoundary from "./components/BlockErrorBoundary";
+import type { BlockErrorInfo, BlockFallback } from "./components/BlockErrorBoundary";
+import BlockFrame from "./components/BlockFrame";
+
+export type RenderOptions<B extends AnyBlock> = {
+  registry?: Registry<B>;
+  // Rendered in place of a block that throws; defaults to a note outside production.
+  // Server components can only pass a node here, and no onBlockError: they
+  // report through setBlockErrorReporter instead
+  fallback?: BlockFallback;
+  onBlockError?: (error: Error, info: BlockErrorInfo) => void;
+  // Props a block's component gets on top of its own, e.g. state from the request; not part of the document
+  extraProps?: (block: B) => Record<string, unknown> | undefined;
+};
+
+type RenderContext<B extends AnyBlock> = {
+  registry: Registry<B>;
+  options: RenderOptions<B>;
+  blockId: (block: B, position: BlockPosition) => string;
+};
+
+function renderBlockList<B extends AnyBlock>(blocks: B[], ctx: RenderContext<B>, parent: Omit<BlockPosition, "index"> = {}) {
+  const { registry, options } = ctx;
 
-export function renderBlocks(blocks: Block[]) {
   return blocks.map((block, idx) => {
-    const { Comp, props } = getComponentAndProps(block);
+    // Ids are assigned parent-first, matching withBlockIds
+    const id = ctx.blockId(block, { ...parent, index: idx });
+    const { Comp, props } = getComponentAndProps(block, registry);
     if (!Comp) {
       return (
-        <div key={`unknown-${idx}`} role="note">
+        <div key={id} data-block-id={id} role="note">
           Unknown block: {block.type}
         </div>
       );
     }
-    return <Comp key={`${block.type}-${idx}`} {...props} />;
+
+    // Render nested block lists (container children) before handing them to the component
+    const renderedProps: Record<string, unknown> = { ...props, ...options.extraProps?.(block) };
+    const schema: Record<string, PropSchema | undefined> = registry.get(block.type)?.schema ?? {};
+    for (const [name, field] of Object.entries(schema)) {
+      const value = renderedProps[name];
+      if (field?.kind === "blocks" && Array.isArray(value)) {
+        renderedProps[name] = renderBlockList(value as B[], ctx, { parentId: id, field: name });
+      }
+    }
+
+    // The frame applies the block's layout, background, anchor and visibility.
+    // Error boundaries only catch on the client, so Suspense hands a block that
+    // throws during server rendering over to the client, where the boundary
+    // catches it, instead of failing the whole page
+    return (
+      <BlockFrame
+        key={id}
+        blockId={id}
+        layout={block.layout}
+        background={block.background}
+        anchorId={block.anchorId}
+        hideOn={block.hideOn}
+      >
+        <Suspense fallback={null}>
+          <BlockErrorBoundary
+            blockId={id}
+            blockType={block.type}
+            index={idx}
+            fallback={options.fallback}
+            onBlockError={options.onBlockError}
+          >
+            <Comp {...renderedProps} />
+          </BlockErrorBoundary>
+        </Suspense>
+      </BlockFrame>
+    );
   });
-}
\ No newline at end of file
+}
+
+export function renderBlocks<B extends AnyBlock = Block>(blocks: B[], options: RenderOptions<B> = {}) {
+  const registry = options.registry ?? (defaultRegistry as unknown as Registry<B>);
+  return renderBlockList(blocks, { registry, options, blockId: createBlockIdGenerator() });
+}
@@ -0,0 +1,50 @@
+/**
+ * Render a routed page document
+ */
+
+import type { PageDoc } from "./types";
+import { renderBlocks } from "./renderBlocks";
+import { resolveTicketData, ticketViewProps } from "./lib/resolveTicketData";
+import { withBlockIds } from "./lib/blockIds";
+import { lookupSchema } from "./lib/validatePageDoc";
+import { paramGetter, ticketViewFromParams } from "./lib/ticketView";
+import { pageStructuredData } from "./lib/structuredData";
+import { describePageStatus } from "./lib/publishing";
+import JsonLd from "./components/JsonLd";
+import PreviewBanner from "./components/PreviewBanner";
+import ThemeProvider from "./components/ThemeProvider";
+import { ticketSources } from "./dataSources";
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+export type RenderPageOptions = {
+  // Draft-mode render of the page at this slug: adds the Preview banner
+  preview?: { slug: string };
+};
+
+// Fetches ticket data and applies the query-string view, so the HTML (and the
+// Event structured data for the tickets it lists) is complete before hydration.
+// Ids are assigned from the document first, so fetched data and the view never
+// change a block's identity between requests.
+export async function renderPageDoc(doc: PageDoc, searchParams: SearchParams, options: RenderPageOptions = {}) {
+  const view = ticketViewFromParams(paramGetter(searchParams));
+  const withIds = withBlockIds(doc.blocks, (type) => lookupSchema(type));
+  const { value: blocks } = await resolveTicketData(withIds, ticketSources);
+  const structuredData = pageStructuredData(blocks, view);
+
+  return (
+    <ThemeProvider
+      theme={doc.theme?.name}
+      overrides={doc.theme?.overrides}
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}
+    >
+      {options.preview && <PreviewBanner slug={options.preview.slug} status={describePageStatus(doc)} />}
+      {structuredData && <JsonLd data={structuredData} />}
+      {renderBlocks(blocks, { extraProps: ticketViewProps(view) })}
+    </ThemeProvider>
+  );
+}
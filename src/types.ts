@@ -1,4 +1,7 @@
 import { ReactNode } from "react";
+import type { CurrencyCode } from "./lib/currencies";
+import type { ThemeName, ThemeOverrides } from "./lib/theme";
+import type { PageStatus } from "./lib/publishing";
 
 /**
  * Types
@@ -11,7 +14,7 @@ export type HeroBlock = {
 
 export type CardListBlock = {
   type: "CardList";
-  props: { items: Array<{ title: string; price?: number; href?: string }> };
+  props: { items: Array<{ title: string; price?: number; href?: string }>; mode?: "all" | "virtual" };
 };
 
 export type CTABlock = {
@@ -19,6 +22,19 @@ export type CTABlock = {
   props: { label: string; href: string; variant?: "primary" | "secondary" };
 };
 
+export type Suggestion = {
+  value: string;
+  // Shown next to the value, e.g. "Category"
+  description?: string;
+  // Lets an onSelect handler tell suggestions apart
+  kind?: string;
+};
+
+// May return a promise; the signal aborts once the query is stale
+export type SuggestionProvider = (query: string, signal: AbortSignal) => Suggestion[] | Promise<Suggestion[]>;
+
+export type HistoryMode = "replace" | "push";
+
 export type SearchBarBlock = {
   type: "SearchBar";
   props: { 
@@ -28,35 +44,187 @@ export type SearchBarBlock = {
     debounceMs?: number;
     syncWithUrl?: boolean;
     urlParam?: string;
+    historyMode?: HistoryMode;
     'aria-label'?: string;
     id?: string;
+    suggestions?: SuggestionProvider;
+    onSelect?: (suggestion: Suggestion) => string | void;
+    recentSearches?: boolean;
+    recentSearchesKey?: string;
   };
 };
 
+export type TicketQuery = {
+  ids?: string[];
+  search?: string;
+  limit?: number;
+};
+
+// Tickets fetched on the server from a named TicketSource instead of inlined
+export type TicketDataRef = {
+  source: string;
+  query?: TicketQuery;
+};
+
+// "all" renders every match; "paged" and "infinite" show pageSize at a time;
+// "virtual" mounts only the rows in view
+export type TicketListMode = "paged" | "infinite" | "virtual" | "all";
+
+export type TicketListDisplay = {
+  pageSize?: number;
+  mode?: TicketListMode;
+  // Initial "Display in" currency; prices are converted and sorted in it
+  displayCurrency?: Currency;
+};
+
 export type TicketListBlock = {
   type: "TicketList";
-  props: { tickets: Ticket[] };
+  props: TicketListDisplay & ({ tickets: Ticket[] } | TicketDataRef);
+};
+
+// Price, availability and event details for one ticket, e.g. on its event page
+export type PricePanelBlock = {
+  type: "PricePanel";
+  props: { ticket: Ticket };
+};
+
+export type FooterBlock = {
+  type: "Footer";
+  props: { title: string; tagline?: string; badges?: string[] };
+};
+
+// Container blocks: `children` holds nested blocks, rendered recursively
+
+export type SectionBlock = {
+  type: "Section";
+  props: {
+    title?: string;
+    as?: "section" | "main";
+    variant?: "plain" | "card";
+    children: Block[];
+  };
 };
 
-export type Block = HeroBlock | CardListBlock | CTABlock | SearchBarBlock | TicketListBlock;
+export type GridBlock = {
+  type: "Grid";
+  props: { columns?: number; minColumnWidth?: string; gap?: string; children: Block[] };
+};
+
+export type ColumnsBlock = {
+  type: "Columns";
+  props: { widths?: number[]; gap?: string; children: Block[] };
+};
+
+export type TabsBlock = {
+  type: "Tabs";
+  props: { labels: string[]; children: Block[] };
+};
+
+export type ContainerBlock = SectionBlock | GridBlock | ColumnsBlock | TabsBlock;
+
+export type BlockAlign = "left" | "center" | "right";
+
+export type BlockLayout = {
+  // CSS lengths, e.g. "640px" or "2rem 1rem"
+  maxWidth?: string;
+  padding?: string;
+  // Aligns the content, and the block itself when maxWidth makes it narrower than its container
+  align?: BlockAlign;
+};
+
+// Viewports split at 768px
+export type BlockViewport = "mobile" | "desktop";
 
-export type PageDoc = {
+// Fields shared by every block; renderBlocks applies them around the component, so no component handles them itself
+export type BlockBase = {
+  // Stable identity, used as the React key and `data-block-id`; generated when missing
+  id?: string;
+  layout?: BlockLayout;
+  // Any CSS background, e.g. a color or gradient
+  background?: string;
+  // Rendered as the element id, so `#anchorId` links scroll to the block
+  anchorId?: string;
+  hideOn?: BlockViewport[];
+};
+
+export type Block = BlockBase & (
+  | HeroBlock
+  | CardListBlock
+  | CTABlock
+  | SearchBarBlock
+  | TicketListBlock
+  | PricePanelBlock
+  | FooterBlock
+  | ContainerBlock
+);
+
+// Search and social preview settings; unset fields fall back to pageTitle and the site-wide metadata
+export type PageSeo = {
+  title?: string;
+  description?: string;
+  // Absolute, or relative to the site URL
+  canonical?: string;
+  ogImage?: string;
+  // Keep the page out of search results
+  noindex?: boolean;
+};
+
+// A built-in theme (light by default) with optional token overrides on top
+export type PageTheme = {
+  name?: ThemeName;
+  overrides?: ThemeOverrides;
+};
+
+export type PageDoc<B extends { type: string } = Block> = {
   pageTitle?: string;
-  blocks: Block[];
+  seo?: PageSeo;
+  theme?: PageTheme;
+  // Missing means published; see isPagePublished
+  status?: PageStatus;
+  // ISO 8601 date-times with a UTC offset: when a scheduled page goes live, and when any page comes down
+  publishAt?: string;
+  unpublishAt?: string;
+  // Set by savePage: counts saves, and when the last one happened
+  revision?: number;
+  savedAt?: string;
+  // Earlier saves, newest first, each without its own history
+  revisions?: PageRevision<B>[];
+  blocks: B[];
 };
 
+export type PageRevision<B extends { type: string } = Block> = Omit<PageDoc<B>, "revisions">;
+
 export type BlockComponent<P> = (props: P) => ReactNode;
 
 export type RawTicket = {
     id: string | number;
     title?: string | null;
     price_cents?: number | null;
-    currency?: 'USD' | 'EUR' | 'GBP' | string | null;
+    currency?: CurrencyCode | string | null;
+    starts_at?: string | null;       // ISO 8601 with a UTC offset, e.g. 2025-07-12T20:00:00-04:00
+    timezone?: string | null;        // IANA zone of the venue, e.g. America/New_York
+    venue?: string | null;
+    city?: string | null;
+    category?: string | null;
+    quantity_available?: number | null;
+    section?: string | number | null;
+    row?: string | number | null;
   };
   
+// Any active ISO 4217 code (see src/lib/currencies.ts)
+export type Currency = CurrencyCode;
+
 export type Ticket = {
 id: string;             // normalized to string
 title: string;          // fallback: "Untitled"
-price: number;          // dollars, 2-decimal float (e.g., 12.34)
-currency: 'USD' | 'EUR' | 'GBP'; // default 'USD' if unknown
+price: number;          // major units, e.g. 12.34 USD or 1500 JPY
+currency: Currency;     // default 'USD' if missing
+startsAt?: Date;        // absolute instant; shown in timeZone
+timeZone?: string;      // IANA zone; UTC when missing
+venue?: string;
+city?: string;
+category?: string;
+quantityAvailable?: number; // 0 = sold out
+section?: string;
+row?: string;
 };
\ No newline at end of file
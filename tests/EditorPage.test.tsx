@@ -0,0 +1,129 @@
+import React from 'react';
+import { act, render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import EditorPage, { metadata } from '../app/editor/page';
+import { loadEditorTickets, savePageDoc } from '../app/editor/actions';
+import { pageEditorEnabled, pageRepository } from '../src/dataSources';
+
+// The editor writes pages, so it runs against an in-memory repository here
+jest.mock('../src/dataSources', () => {
+  const actual = jest.requireActual('../src/dataSources');
+  const { createInMemoryPageRepository } = jest.requireActual('../src/lib/pageRepository');
+  return {
+    ...actual,
+    pageEditorEnabled: jest.fn(() => true),
+    pageRepository: createInMemoryPageRepository({
+      about: { pageTitle: 'About', blocks: [{ id: 'intro', type: 'Hero', props: { title: 'About us' } }] },
+      'events/summer': { blocks: [] },
+    }),
+  };
+});
+
+const enabled = pageEditorEnabled as jest.MockedFunction<typeof pageEditorEnabled>;
+
+const props = (slug?: string) => ({ searchParams: Promise.resolve(slug === undefined ? {} : { slug }) });
+
+async function renderPage(slug?: string) {
+  const page = await EditorPage(props(slug));
+  await act(async () => {
+    render(page);
+  });
+}
+
+afterEach(() => enabled.mockReturnValue(true));
+
+describe('/editor', () => {
+  test('loads the page named by ?slug into the editor', async () => {
+    await renderPage('about');
+
+    expect(screen.getByLabelText('Slug')).toHaveValue('about');
+    expect(within(screen.getByRole('combobox', { name: 'Page' })).getAllByRole('option').map((o) => o.textContent)).toEqual([
+      '/about',
+      '/events/summer',
+    ]);
+    expect(within(screen.getByRole('main', { name: 'Preview' })).getByRole('heading', { name: 'About us' })).toBeInTheDocument();
+  });
+
+  test('starts an empty page without a slug', async () => {
+    await renderPage();
+
+    expect(screen.getByLabelText('Slug')).toHaveValue('');
+    expect(within(screen.getByRole('region', { name: 'Blocks' })).queryAllByRole('listitem')).toHaveLength(0);
+  });
+
+  test('starts an empty page under a slug that has no page yet', async () => {
+    await renderPage('contact');
+
+    expect(screen.getByLabelText('Slug')).toHaveValue('contact');
+    expect(within(screen.getByRole('region', { name: 'Blocks' })).queryAllByRole('listitem')).toHaveLength(0);
+  });
+
+  test('is not indexed', () => {
+    expect(metadata).toEqual(expect.objectContaining({ robots: { index: false, follow: false } }));
+  });
+
+  test('is not found when the editor is disabled', async () => {
+    enabled.mockReturnValue(false);
+
+    await expect(EditorPage(props('about'))).rejects.toMatchObject({ digest: 'NEXT_HTTP_ERROR_FALLBACK;404' });
+  });
+});
+
+describe('editor actions', () => {
+  test('save valid documents to the page repository', async () => {
+    const doc = { pageTitle: 'Contact', blocks: [{ id: 'cta-1', type: 'CTA', props: { label: 'Email us', href: 'mailto:hi@example.com' } }] };
+
+    await expect(savePageDoc('contact', doc)).resolves.toEqual({ ok: true, slug: 'contact', revision: 1 });
+    await expect(pageRepository.getPage('contact')).resolves.toEqual({ ...doc, revision: 1, savedAt: expect.any(String) });
+    await expect(savePageDoc('contact', doc)).resolves.toEqual({ ok: true, slug: 'contact', revision: 2 });
+  });
+
+  test('report validation issues and bad slugs instead of saving', async () => {
+    await expect(savePageDoc('broken', { blocks: [{ type: 'Hero', props: {} }] })).resolves.toEqual({
+      ok: false,
+      issues: ['blocks[0].props.title: required'],
+    });
+    await expect(savePageDoc('../secrets', { blocks: [] })).resolves.toEqual({ ok: false, issues: ['Invalid page slug "../secrets"'] });
+    await expect(pageRepository.listPages()).resolves.not.toContain('broken');
+  });
+
+  test('refuse to save when the editor is disabled', async () => {
+    enabled.mockReturnValue(false);
+
+    await expect(savePageDoc('about', { blocks: [] })).resolves.toEqual({ ok: false, issues: ['The page editor is disabled'] });
+    expect((await pageRepository.getPage('about'))?.pageTitle).toBe('About');
+  });
+
+  test('load tickets from the named source', async () => {
+    await expect(loadEditorTickets('events', { ids: ['1'] })).resolves.toEqual([expect.objectContaining({ id: '1' })]);
+    await expect(loadEditorTickets('nope')).rejects.toThrow('Unknown ticket source "nope"');
+  });
+});
+
+describe('pageEditorEnabled', () => {
+  const { pageEditorEnabled: isEnabled } = jest.requireActual('../src/dataSources');
+  const saved = { ...process.env };
+
+  // process.env stringifies assigned values, so unset variables are deleted instead
+  const setEnv = (name: string, value: string | undefined) => {
+    if (value === undefined) delete process.env[name];
+    else (process.env as Record<string, string>)[name] = value;
+  };
+
+  afterEach(() => {
+    setEnv('NODE_ENV', saved.NODE_ENV);
+    setEnv('ENABLE_PAGE_EDITOR', saved.ENABLE_PAGE_EDITOR);
+  });
+
+  test('is on outside production and opt-in in production', () => {
+    setEnv('ENABLE_PAGE_EDITOR', undefined);
+    setEnv('NODE_ENV', 'development');
+    expect(isEnabled()).toBe(true);
+
+    setEnv('NODE_ENV', 'production');
+    expect(isEnabled()).toBe(false);
+
+    setEnv('ENABLE_PAGE_EDITOR', 'true');
+    expect(isEnabled()).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import EventPage, { generateMetadata, generateStaticParams } from '../app/events/[id]/page';
+import { ticketSources } from '../src/dataSources';
+import { eventHref, eventPageDoc } from '../src/lib/eventPage';
+import { pageStructuredData } from '../src/lib/structuredData';
+import { renderBlocks } from '../src/renderBlocks';
+import { demoPage } from '../src/mockPage';
+import type { Ticket } from '../src/types';
+
+const props = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const ticket: Ticket = {
+  id: '51',
+  title: 'Taylor Swift Eras Tour',
+  price: 245,
+  currency: 'USD',
+  startsAt: new Date('2025-07-12T20:00:00-04:00'),
+  timeZone: 'America/New_York',
+  venue: 'MetLife Stadium',
+  city: 'East Rutherford',
+  category: 'Pop',
+  quantityAvailable: 4,
+};
+
+describe('event pages', () => {
+  test('prerenders every ticket in the events source', async () => {
+    const tickets = await ticketSources.events!.getTickets();
+
+    await expect(generateStaticParams()).resolves.toEqual(tickets.map((t) => ({ id: t.id })));
+  });
+
+  test('renders a ticket through Hero, PricePanel and CTA blocks', async () => {
+    const [first] = await ticketSources.events!.getTickets({ limit: 1 });
+    render(await EventPage(props(first!.id)));
+
+    expect(screen.getByRole('heading', { level: 1, name: first!.title })).toBeInTheDocument();
+    const price = new Intl.NumberFormat('en-US', { style: 'currency', currency: first!.currency }).format(first!.price);
+    expect(within(screen.getByRole('region', { name: 'Price' })).getByText(price)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Browse All Events' })).toHaveAttribute('href', '/events');
+  });
+
+  test('unknown ids are not found', async () => {
+    await expect(EventPage(props('no-such-event'))).rejects.toMatchObject({ digest: 'NEXT_HTTP_ERROR_FALLBACK;404' });
+    await expect(generateMetadata(props('no-such-event'))).rejects.toMatchObject({
+      digest: 'NEXT_HTTP_ERROR_FALLBACK;404',
+    });
+  });
+
+  test('the showcase card links to a real event page', async () => {
+    const [swift] = await ticketSources.events!.getTickets({ search: 'Taylor Swift Eras Tour' });
+    const cards = demoPage.blocks.flatMap((block) => (block.type === 'CardList' ? block.props.items : []));
+
+    expect(cards.find((card) => card.title === swift!.title)?.href).toBe(eventHref(swift!.id));
+  });
+
+  test('builds metadata and structured data from the ticket', () => {
+    const doc = eventPageDoc(ticket);
+
+    expect(doc.pageTitle).toBe('Taylor Swift Eras Tour');
+    expect(doc.seo).toEqual({
+      description: 'July 12, 2025 at MetLife Stadium, East Rutherford. Tickets from $245.00.',
+      canonical: '/events/51',
+    });
+    expect(pageStructuredData(doc.blocks)).toEqual(
+      expect.objectContaining({ '@graph': [expect.objectContaining({ '@type': 'Event', name: 'Taylor Swift Eras Tour' })] })
+    );
+  });
+
+  test('PricePanel shows price, conversions, availability and details', () => {
+    render(<>{renderBlocks(eventPageDoc(ticket).blocks)}</>);
+    const panel = within(screen.getByRole('region', { name: 'Price' }));
+
+    expect(panel.getByText('$245.00')).toBeInTheDocument();
+    expect(panel.getByText(/^≈ €.* · £/)).toBeInTheDocument();
+    expect(panel.getByText('Only 4 left')).toBeInTheDocument();
+    expect(panel.getByText('MetLife Stadium, East Rutherford')).toBeInTheDocument();
+    expect(panel.getByText('Pop')).toBeInTheDocument();
+  });
+});
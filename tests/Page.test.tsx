@@ -3,8 +3,24 @@ import { render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import Page from '../app/page';
 
-test('renders the demo page title', () => {
-  render(<Page />);
+test('renders the demo page title', async () => {
+  render(await Page({ searchParams: Promise.resolve({}) }));
   // your mockPage has a `pageTitle`—this checks that it shows up
+  expect(screen.getAllByRole('heading', { level: 1 })[0]).toHaveTextContent('Concert Deals');
   expect(screen.getByText(/Hot Tickets Tonight/i)).toBeInTheDocument();
-});
\ No newline at end of file
+});
+
+test('renders the whole showcase from a single page doc', async () => {
+  render(await Page({ searchParams: Promise.resolve({}) }));
+
+  expect(screen.getByRole('main')).toHaveTextContent('All Available Events');
+  expect(screen.getByRole('contentinfo')).toHaveTextContent('Component Registry Showcase');
+  expect(screen.getByLabelText('Search tickets')).toBeInTheDocument();
+});
+
+test('renders tickets resolved from the events source', async () => {
+  render(await Page({ searchParams: Promise.resolve({}) }));
+
+  expect(screen.getByRole('navigation', { name: 'Ticket pages' })).toBeInTheDocument();
+  expect(screen.getByText(/^Page 1 of \d+ \(\d+ tickets\)$/)).toBeInTheDocument();
+});
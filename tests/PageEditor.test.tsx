@@ -0,0 +1,193 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import PageEditor from '../src/components/PageEditor';
+import { createInMemoryTicketSource } from '../src/lib/ticketSources';
+import type { PageDoc, TicketQuery } from '../src/types';
+
+const doc: PageDoc = {
+  pageTitle: 'About',
+  blocks: [
+    { id: 'intro', type: 'Hero', props: { title: 'Welcome' } },
+    { id: 'buy', type: 'CTA', props: { label: 'Buy now', href: '/buy' } },
+  ],
+};
+
+const sourceNames = ['events'];
+const events = createInMemoryTicketSource();
+
+// Resolves once the first preview is up
+async function renderEditor(overrides: Partial<React.ComponentProps<typeof PageEditor>> = {}) {
+  const props = {
+    slug: 'about',
+    initialDoc: doc,
+    pages: ['about', 'events'],
+    ticketSources: sourceNames,
+    onSave: jest.fn(async (slug: string) => ({ ok: true as const, slug, revision: 2 })),
+    loadTickets: jest.fn((_source: string, query?: TicketQuery) => events.getTickets(query)),
+    ...overrides,
+  };
+  await act(async () => {
+    render(<PageEditor {...props} />);
+  });
+  return props;
+}
+
+const preview = () => within(screen.getByRole('main', { name: 'Preview' }));
+const properties = () => within(screen.getByRole('region', { name: 'Properties' }));
+const tree = () => within(screen.getByRole('region', { name: 'Blocks' }));
+// The select buttons, one per block, in tree order
+const treeLabels = () => tree().getAllByRole('button').filter((b) => b.hasAttribute('aria-pressed')).map((b) => b.textContent);
+
+describe('PageEditor', () => {
+  test('renders the block tree and a live preview; edits to the props form show up in the preview', async () => {
+    await renderEditor();
+
+    expect(treeLabels()).toEqual(['Hero: Welcome', 'Call to action: Buy now']);
+    expect(await preview().findByRole('heading', { name: 'Welcome' })).toBeInTheDocument();
+
+    // The first block starts selected
+    expect(tree().getByRole('button', { name: 'Hero: Welcome' })).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.change(properties().getByLabelText(/^Title/), { target: { value: 'Hello there' } });
+    expect(await preview().findByRole('heading', { name: 'Hello there' })).toBeInTheDocument();
+
+    fireEvent.click(tree().getByRole('button', { name: 'Call to action: Buy now' }));
+    fireEvent.change(properties().getByLabelText(/^Variant/), { target: { value: 'secondary' } });
+    await waitFor(() => expect(preview().getByRole('link', { name: 'Buy now' })).toHaveClass('secondary'));
+  });
+
+  test('applies layout fields from the shared block schema', async () => {
+    await renderEditor();
+
+    fireEvent.change(properties().getByLabelText(/^Anchor id/), { target: { value: 'top' } });
+    await waitFor(() => expect(preview().getByRole('heading', { name: 'Welcome' }).closest('[data-block-id]')).toHaveAttribute('id', 'top'));
+  });
+
+  test('adds, reorders and deletes blocks', async () => {
+    await renderEditor();
+
+    fireEvent.change(tree().getByRole('combobox', { name: 'Add block' }), { target: { value: 'Footer' } });
+    expect(treeLabels()).toEqual(['Hero: Welcome', 'Call to action: Buy now', 'Footer']);
+    // New blocks are selected for editing
+    expect(tree().getByRole('button', { name: 'Footer' })).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.change(properties().getByLabelText(/^Title/), { target: { value: 'Fine print' } });
+
+    fireEvent.click(tree().getByRole('button', { name: 'Move Footer: Fine print up' }));
+    expect(treeLabels()).toEqual(['Hero: Welcome', 'Footer: Fine print', 'Call to action: Buy now']);
+    expect(tree().getByRole('button', { name: 'Move Hero: Welcome up' })).toBeDisabled();
+
+    fireEvent.click(tree().getByRole('button', { name: 'Move Hero: Welcome down' }));
+    fireEvent.click(tree().getByRole('button', { name: 'Delete Call to action: Buy now' }));
+    expect(treeLabels()).toEqual(['Footer: Fine print', 'Hero: Welcome']);
+    await waitFor(() => expect(preview().queryByRole('link', { name: 'Buy now' })).not.toBeInTheDocument());
+  });
+
+  test('edits nested blocks inside containers', async () => {
+    await renderEditor({ initialDoc: { blocks: [] } });
+
+    fireEvent.change(tree().getByRole('combobox', { name: 'Add block' }), { target: { value: 'Section' } });
+    fireEvent.change(tree().getByRole('combobox', { name: 'Add block to Section' }), { target: { value: 'Hero' } });
+    fireEvent.change(properties().getByLabelText(/^Title/), { target: { value: 'Inside' } });
+
+    const section = tree().getByRole('button', { name: 'Section' }).closest('li')!;
+    expect(within(section).getByRole('button', { name: 'Hero: Inside' })).toHaveAttribute('aria-pressed', 'true');
+    expect(await preview().findByRole('heading', { name: 'Inside' })).toBeInTheDocument();
+  });
+
+  test('lists validation problems as they come up', async () => {
+    await renderEditor();
+
+    expect(screen.queryByRole('region', { name: 'Problems' })).not.toBeInTheDocument();
+    fireEvent.change(properties().getByLabelText(/^Anchor id/), { target: { value: '1 two' } });
+    expect(within(screen.getByRole('region', { name: 'Problems' })).getByRole('listitem')).toHaveTextContent(
+      'blocks[0].anchorId: expected a letter followed by letters, digits, "-" or "_"'
+    );
+
+    // The preview shows the document as a reload would serve it, without the bad anchor
+    const frame = preview().getByRole('heading', { name: 'Welcome' }).closest('[data-block-id]');
+    expect(frame).not.toHaveAttribute('id');
+
+    fireEvent.change(properties().getByLabelText(/^Anchor id/), { target: { value: 'top' } });
+    expect(screen.queryByRole('region', { name: 'Problems' })).not.toBeInTheDocument();
+    await waitFor(() => expect(frame).toHaveAttribute('id', 'top'));
+  });
+
+  test('exports the document as a JSON download', async () => {
+    await renderEditor();
+
+    const link = screen.getByRole('link', { name: 'Export JSON' });
+    expect(link).toHaveAttribute('download', 'about.json');
+    const href = link.getAttribute('href')!;
+    expect(href.startsWith('data:application/json;charset=utf-8,')).toBe(true);
+    expect(JSON.parse(decodeURIComponent(href.slice(href.indexOf(',') + 1)))).toEqual(doc);
+  });
+
+  test('imports a JSON file, dropping anything invalid', async () => {
+    await renderEditor();
+
+    const imported = { pageTitle: 'Imported', blocks: [{ type: 'Hero', props: { title: 'From file' } }, { type: 'Marquee', props: {} }] };
+    const file = new File([JSON.stringify(imported)], 'imported.json', { type: 'application/json' });
+    fireEvent.change(screen.getByLabelText('Import JSON'), { target: { files: [file] } });
+
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('Imported imported.json; invalid parts were dropped'));
+    expect(screen.getByText('blocks[1].type: unknown block type "Marquee"')).toBeInTheDocument();
+    expect(treeLabels()).toEqual(['Hero: From file']);
+    expect(screen.getByLabelText(/^Page title/)).toHaveValue('Imported');
+    expect(await preview().findByRole('heading', { name: 'From file' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Import JSON'), { target: { files: [new File(['{ nope'], 'broken.json')] } });
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('broken.json is not valid JSON'));
+    expect(treeLabels()).toEqual(['Hero: From file']);
+  });
+
+  test('saves through onSave and reports the result', async () => {
+    const onSave = jest.fn(async (slug: string) => ({ ok: true as const, slug, revision: 2 }));
+    await renderEditor({ onSave });
+
+    fireEvent.change(screen.getByLabelText(/^Page title/), { target: { value: 'About us' } });
+    fireEvent.change(screen.getByLabelText('Slug'), { target: { value: 'company/about ' } });
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: 'Save' })));
+
+    expect(onSave).toHaveBeenCalledWith('company/about', { ...doc, pageTitle: 'About us' });
+    expect(screen.getByRole('status')).toHaveTextContent('Saved /company/about (revision 2)');
+  });
+
+  test('shows the issues a rejected save reports', async () => {
+    const onSave = jest.fn(async () => ({ ok: false as const, issues: ['blocks[0].props.title: expected string'] }));
+    await renderEditor({ onSave });
+
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: 'Save' })));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Not saved');
+    expect(screen.getByText('blocks[0].props.title: expected string')).toBeInTheDocument();
+  });
+
+  test('previews TicketList sources through loadTickets, once per query', async () => {
+    const { loadTickets } = await renderEditor({
+      initialDoc: {
+        blocks: [
+          { id: 'list', type: 'TicketList', props: { source: 'events', query: { limit: 2 } } },
+          { id: 'intro', type: 'Hero', props: { title: 'Welcome' } },
+        ],
+      },
+    });
+
+    const [first] = await events.getTickets({ limit: 1 });
+    expect(await preview().findByText(first!.title)).toBeInTheDocument();
+    expect(loadTickets).toHaveBeenCalledWith('events', { limit: 2 });
+
+    fireEvent.click(tree().getByRole('button', { name: 'Hero: Welcome' }));
+    fireEvent.change(properties().getByLabelText(/^Title/), { target: { value: 'Changed' } });
+    expect(await preview().findByRole('heading', { name: 'Changed' })).toBeInTheDocument();
+    expect(loadTickets).toHaveBeenCalledTimes(1);
+  });
+
+  test('offers the stored pages to open', async () => {
+    await renderEditor();
+
+    const picker = screen.getByRole('combobox', { name: 'Page' });
+    expect(within(picker).getAllByRole('option').map((o) => o.textContent)).toEqual(['/about', '/events']);
+    expect(picker).toHaveValue('about');
+    expect(screen.getByRole('link', { name: 'New page' })).toHaveAttribute('href', '/editor');
+  });
+});
@@ -1,33 +1,16 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import '@testing-library/jest-dom';
+import * as navigation from 'next/navigation';
 import SearchBar from '../src/components/SearchBar';
 
-// Mock window.history for URL sync tests
-const mockReplaceState = jest.fn();
-Object.defineProperty(window, 'history', {
-  value: {
-    replaceState: mockReplaceState,
-  },
-  writable: true,
-});
-
-// Mock URL constructor
-const mockUrl = {
-  searchParams: {
-    set: jest.fn(),
-    delete: jest.fn(),
-    get: jest.fn(),
-  },
-  toString: jest.fn(() => 'http://localhost:3000?search=test'),
-};
-global.URL = jest.fn(() => mockUrl) as any;
+// next/navigation resolves to the App Router stand-in in tests/__mocks__
+const { mockRouter } = navigation as unknown as typeof import('./__mocks__/next/navigation');
 
 describe('SearchBar', () => {
   beforeEach(() => {
     jest.clearAllMocks();
-    mockUrl.searchParams.get.mockReturnValue(null);
-    mockUrl.toString.mockReturnValue('http://localhost:3000');
+    window.history.replaceState({}, '', '/');
   });
 
   describe('Basic Rendering', () => {
@@ -164,22 +147,23 @@ describe('SearchBar', () => {
 
   describe('URL Synchronization', () => {
     it('initializes from URL parameter', () => {
-      mockUrl.searchParams.get.mockReturnValue('url-search-value');
-      
-      // Mock window.location.search
-      Object.defineProperty(window, 'location', {
-        value: {
-          search: '?search=url-search-value',
-          href: 'http://localhost:3000?search=url-search-value'
-        },
-        writable: true,
-      });
+      window.history.replaceState({}, '', '/?search=url-search-value');
       
       render(<SearchBar syncWithUrl={true} urlParam="search" />);
       
       expect(screen.getByDisplayValue('url-search-value')).toBeInTheDocument();
     });
 
+    it('reports the initial URL value to the parent', () => {
+      window.history.replaceState({}, '', '/?q=jazz');
+      const onChange = jest.fn();
+
+      render(<SearchBar syncWithUrl={true} urlParam="q" onChange={onChange} />);
+
+      expect(onChange).toHaveBeenCalledWith('jazz');
+      expect(mockRouter.replace).not.toHaveBeenCalled();
+    });
+
     it('updates URL when input changes', async () => {
       render(<SearchBar syncWithUrl={true} urlParam="search" debounceMs={0} />);
       const input = screen.getByLabelText('Search input');
@@ -188,8 +172,20 @@ describe('SearchBar', () => {
       
       // URL sync happens in useEffect, so we need to wait for it
       await waitFor(() => {
-        expect(mockUrl.searchParams.set).toHaveBeenCalledWith('search', 'test');
+        expect(mockRouter.replace).toHaveBeenCalledWith('/?search=test', { scroll: false });
       }, { timeout: 100 });
+      expect(window.location.search).toBe('?search=test');
+    });
+
+    it('keeps other query params', async () => {
+      window.history.replaceState({}, '', '/events?page=2');
+      render(<SearchBar syncWithUrl={true} debounceMs={0} />);
+
+      fireEvent.change(screen.getByLabelText('Search input'), { target: { value: 'rock & roll' } });
+
+      await waitFor(() => {
+        expect(mockRouter.replace).toHaveBeenCalledWith('/events?page=2&search=rock+%26+roll', { scroll: false });
+      });
     });
 
     it('removes URL parameter when input is cleared', async () => {
@@ -197,10 +193,12 @@ describe('SearchBar', () => {
       const input = screen.getByLabelText('Search input');
       
       fireEvent.change(input, { target: { value: 'test' } });
+      await waitFor(() => expect(window.location.search).toBe('?search=test'));
+
       fireEvent.change(input, { target: { value: '' } });
       
       await waitFor(() => {
-        expect(mockUrl.searchParams.delete).toHaveBeenCalledWith('search');
+        expect(mockRouter.replace).toHaveBeenLastCalledWith('/', { scroll: false });
       }, { timeout: 100 });
     });
 
@@ -211,10 +209,44 @@ describe('SearchBar', () => {
       fireEvent.change(input, { target: { value: 'test' } });
       
       await waitFor(() => {
-        expect(mockUrl.searchParams.set).not.toHaveBeenCalled();
-        expect(mockReplaceState).not.toHaveBeenCalled();
+        expect(mockRouter.replace).not.toHaveBeenCalled();
+        expect(mockRouter.push).not.toHaveBeenCalled();
       });
     });
+
+    it('adds a history entry per search in push mode', async () => {
+      render(<SearchBar syncWithUrl={true} historyMode="push" debounceMs={0} />);
+      const input = screen.getByLabelText('Search input');
+
+      fireEvent.change(input, { target: { value: 'jazz' } });
+      await waitFor(() => expect(window.location.search).toBe('?search=jazz'));
+      fireEvent.change(input, { target: { value: 'rock' } });
+      await waitFor(() => expect(window.location.search).toBe('?search=rock'));
+
+      expect(mockRouter.push.mock.calls.map(([href]) => href)).toEqual(['/?search=jazz', '/?search=rock']);
+      expect(mockRouter.replace).not.toHaveBeenCalled();
+    });
+
+    it('follows back and forward navigation', async () => {
+      const onChange = jest.fn();
+      render(<SearchBar syncWithUrl={true} historyMode="push" debounceMs={0} onChange={onChange} />);
+      const input = screen.getByLabelText('Search input');
+
+      fireEvent.change(input, { target: { value: 'jazz' } });
+      await waitFor(() => expect(window.location.search).toBe('?search=jazz'));
+      fireEvent.change(input, { target: { value: 'rock' } });
+      await waitFor(() => expect(window.location.search).toBe('?search=rock'));
+
+      act(() => window.history.back());
+      await waitFor(() => expect(input).toHaveValue('jazz'));
+      expect(onChange).toHaveBeenLastCalledWith('jazz');
+
+      act(() => window.history.forward());
+      await waitFor(() => expect(input).toHaveValue('rock'));
+
+      // Following navigation must not add entries of its own
+      expect(mockRouter.push).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('Accessibility', () => {
@@ -256,34 +288,21 @@ describe('SearchBar', () => {
   });
 
   describe('Focus and Blur Styling', () => {
-    it('applies focus styles', () => {
-      render(<SearchBar />);
-      const input = screen.getByLabelText('Search input');
-      
-      fireEvent.focus(input);
-      
-      expect(input).toHaveStyle({
-        borderColor: '#3b82f6',
-        boxShadow: '0 0 0 3px rgba(59, 130, 246, 0.1)'
-      });
-    });
-
-    it('removes focus styles on blur', () => {
+    // The focus ring is a :focus-visible rule in SearchBar.module.css
+    it('leaves inline styles alone on focus and blur', () => {
       render(<SearchBar />);
       const input = screen.getByLabelText('Search input');
       
       fireEvent.focus(input);
       fireEvent.blur(input);
       
-      expect(input).toHaveStyle({
-        borderColor: '#d1d5db',
-        boxShadow: 'none'
-      });
+      expect(input).not.toHaveAttribute('style');
+      expect(input).toHaveClass('input');
     });
   });
 
   describe('Clear Button Interactions', () => {
-    it('applies hover styles to clear button', () => {
+    it('leaves inline styles alone on hover', () => {
       render(<SearchBar />);
       const input = screen.getByLabelText('Search input');
       
@@ -291,16 +310,10 @@ describe('SearchBar', () => {
       const clearButton = screen.getByLabelText('Clear search');
       
       fireEvent.mouseEnter(clearButton);
-      expect(clearButton).toHaveStyle({
-        color: '#374151',
-        backgroundColor: '#f3f4f6'
-      });
-      
       fireEvent.mouseLeave(clearButton);
-      expect(clearButton).toHaveStyle({
-        color: '#6b7280',
-        backgroundColor: 'transparent'
-      });
+      
+      expect(clearButton).not.toHaveAttribute('style');
+      expect(clearButton).toHaveClass('clear');
     });
   });
 
@@ -372,4 +385,185 @@ describe('SearchBar', () => {
       });
     });
   });
+  describe('Suggestions', () => {
+    const bands = ['Arctic Monkeys', 'Arcade Fire', 'Architects'];
+    const suggestBands = (query: string) =>
+      bands.filter((band) => band.toLowerCase().startsWith(query.toLowerCase())).map((value) => ({ value }));
+
+    it('renders a plain text input without suggestions', () => {
+      render(<SearchBar />);
+
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+    });
+
+    it('shows matching suggestions in a listbox', () => {
+      render(<SearchBar suggestions={suggestBands} />);
+      const input = screen.getByRole('combobox', { name: 'Search input' });
+
+      expect(input).toHaveAttribute('aria-expanded', 'false');
+      expect(input).toHaveAttribute('aria-autocomplete', 'list');
+
+      fireEvent.change(input, { target: { value: 'arc' } });
+
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+      expect(input).toHaveAttribute('aria-controls', screen.getByRole('listbox').id);
+      expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual([
+        'Arctic Monkeys',
+        'Arcade Fire',
+        'Architects',
+      ]);
+    });
+
+    it('moves through options with the arrow keys and selects with Enter', () => {
+      const onChange = jest.fn();
+      render(<SearchBar suggestions={suggestBands} onChange={onChange} />);
+      const input = screen.getByRole('combobox');
+
+      fireEvent.change(input, { target: { value: 'arc' } });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+      const active = screen.getByRole('option', { name: 'Arcade Fire' });
+      expect(active).toHaveAttribute('aria-selected', 'true');
+      expect(input).toHaveAttribute('aria-activedescendant', active.id);
+
+      // Wraps around at either end
+      fireEvent.keyDown(input, { key: 'ArrowUp' });
+      fireEvent.keyDown(input, { key: 'ArrowUp' });
+      expect(screen.getByRole('option', { name: 'Architects' })).toHaveAttribute('aria-selected', 'true');
+
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(input).toHaveValue('Architects');
+      expect(onChange).toHaveBeenCalledWith('Architects');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('closes with Escape and reopens with ArrowDown', () => {
+      render(<SearchBar suggestions={suggestBands} />);
+      const input = screen.getByRole('combobox');
+
+      fireEvent.change(input, { target: { value: 'arc' } });
+      fireEvent.keyDown(input, { key: 'Escape' });
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(input).toHaveValue('arc');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(screen.getByRole('option', { name: 'Arctic Monkeys' })).toHaveAttribute('aria-selected', 'true');
+    });
+
+    it('selects a suggestion on click', () => {
+      render(<SearchBar suggestions={suggestBands} />);
+      const input = screen.getByRole('combobox');
+
+      fireEvent.change(input, { target: { value: 'arc' } });
+      fireEvent.click(screen.getByRole('option', { name: 'Arcade Fire' }));
+
+      expect(input).toHaveValue('Arcade Fire');
+    });
+
+    it('lets onSelect decide what stays in the input', () => {
+      const onSelect = jest.fn(() => '');
+      render(<SearchBar suggestions={suggestBands} onSelect={onSelect} />);
+      const input = screen.getByRole('combobox');
+
+      fireEvent.change(input, { target: { value: 'arc' } });
+      fireEvent.click(screen.getByRole('option', { name: 'Arctic Monkeys' }));
+
+      expect(onSelect).toHaveBeenCalledWith({ value: 'Arctic Monkeys' });
+      expect(input).toHaveValue('');
+    });
+
+    it('ignores answers to stale queries', async () => {
+      const pending: Array<{ query: string; signal: AbortSignal; resolve: (value: { value: string }[]) => void }> = [];
+      const suggestions = (query: string, signal: AbortSignal) =>
+        new Promise<{ value: string }[]>((resolve) => pending.push({ query, signal, resolve }));
+      render(<SearchBar suggestions={suggestions} />);
+      const input = screen.getByRole('combobox');
+
+      fireEvent.change(input, { target: { value: 'ar' } });
+      fireEvent.change(input, { target: { value: 'arc' } });
+
+      expect(pending.map(({ query, signal }) => [query, signal.aborted])).toEqual([
+        ['ar', true],
+        ['arc', false],
+      ]);
+
+      // The newer request answers first, then the stale one
+      await act(async () => {
+        pending[1]!.resolve([{ value: 'Arcade Fire' }]);
+        pending[0]!.resolve([{ value: 'Arlo Parks' }]);
+      });
+
+      expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['Arcade Fire']);
+    });
+
+    it('treats a failing provider as having no suggestions', async () => {
+      render(<SearchBar suggestions={() => Promise.reject(new Error('offline'))} />);
+
+      await act(async () => {
+        fireEvent.change(screen.getByRole('combobox'), { target: { value: 'arc' } });
+      });
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Recent Searches', () => {
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('remembers searches submitted with Enter', () => {
+      const { unmount } = render(<SearchBar recentSearches={true} />);
+      const input = screen.getByRole('combobox');
+
+      for (const term of ['jazz', 'rock', 'Jazz']) {
+        fireEvent.change(input, { target: { value: term } });
+        fireEvent.keyDown(input, { key: 'Enter' });
+      }
+      unmount();
+
+      expect(JSON.parse(window.localStorage.getItem('recent-searches:search-input')!)).toEqual(['Jazz', 'rock']);
+    });
+
+    it('offers recent searches when the empty input is focused', () => {
+      window.localStorage.setItem('tickets', JSON.stringify(['jazz', 'rock']));
+      const onChange = jest.fn();
+      render(<SearchBar recentSearches={true} recentSearchesKey="tickets" onChange={onChange} />);
+      const input = screen.getByRole('combobox');
+
+      fireEvent.focus(input);
+
+      expect(screen.getByRole('listbox', { name: 'Recent searches' })).toBeInTheDocument();
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(input).toHaveValue('jazz');
+      expect(onChange).toHaveBeenCalledWith('jazz');
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('clears recent searches', () => {
+      window.localStorage.setItem('recent-searches:search-input', JSON.stringify(['jazz']));
+      render(<SearchBar recentSearches={true} />);
+
+      fireEvent.focus(screen.getByRole('combobox'));
+      fireEvent.click(screen.getByRole('button', { name: 'Clear recent searches' }));
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(window.localStorage.getItem('recent-searches:search-input')).toBeNull();
+    });
+
+    it('ignores unreadable storage', () => {
+      window.localStorage.setItem('recent-searches:search-input', '{not json');
+      render(<SearchBar recentSearches={true} />);
+
+      fireEvent.focus(screen.getByRole('combobox'));
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+  });
 });
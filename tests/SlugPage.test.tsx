@@ -0,0 +1,43 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SlugPage, { generateMetadata } from '../app/[...slug]/page';
+
+// Pages come from content/pages/*.json
+const props = (slug: string[], searchParams = {}) => ({
+  params: Promise.resolve({ slug }),
+  searchParams: Promise.resolve(searchParams),
+});
+
+test('renders a page doc from the repository by slug', async () => {
+  render(await SlugPage(props(['events'])));
+
+  expect(screen.getByRole('heading', { name: 'All Events' })).toBeInTheDocument();
+  expect(screen.getByText(/^Page 1 of \d+ \(\d+ tickets\)$/)).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Back to Home' })).toHaveAttribute('href', '/');
+});
+
+test('applies query params to the page like the home route', async () => {
+  // After hydration the client follows the browser URL, which carries the same params
+  window.history.replaceState({}, '', '/events?search=tour&page=2');
+  render(await SlugPage(props(['events'], { search: 'tour', page: '2' })));
+
+  expect(screen.getByLabelText('Search tickets')).toHaveValue('tour');
+  expect(screen.getByText(/^Page 2 of \d+/)).toBeInTheDocument();
+  window.history.replaceState({}, '', '/');
+});
+
+test('takes metadata from the doc', async () => {
+  await expect(generateMetadata(props(['events']))).resolves.toEqual(
+    expect.objectContaining({
+      title: 'All Events',
+      description: expect.stringContaining('concerts'),
+      alternates: { canonical: '/events' },
+    })
+  );
+});
+
+test.each([[['nope']], [['events', 'nope']], [['..', 'package']]])('unknown slug %j is not found', async (slug) => {
+  await expect(SlugPage(props(slug))).rejects.toMatchObject({ digest: 'NEXT_HTTP_ERROR_FALLBACK;404' });
+  await expect(generateMetadata(props(slug))).rejects.toMatchObject({ digest: 'NEXT_HTTP_ERROR_FALLBACK;404' });
+});
@@ -1,8 +1,9 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import TicketList from '../src/components/TicketList';
+import { createStaticRateProvider } from '../src/lib/exchangeRates';
 import type { Ticket } from '../src/types';
 
 // Mock ticket data for testing
@@ -14,6 +15,15 @@ const mockTickets: Ticket[] = [
   { id: '5', title: 'Kendrick Lamar Mr. Morale Tour', price: 95.00, currency: 'USD' },
 ];
 
+// Search highlights split titles into <mark> fragments, so match the whole title
+const ticketTitle = (title: string) => (_content: string, element: Element | null) =>
+  element?.tagName === 'STRONG' && element.textContent === title;
+
+// Search, filters and page all sync to the URL; start every test from a clean one
+afterEach(() => {
+  window.history.replaceState({}, '', '/');
+});
+
 describe('TicketList', () => {
   test('renders all tickets by default', () => {
     render(<TicketList tickets={mockTickets} />);
@@ -25,6 +35,12 @@ describe('TicketList', () => {
     expect(screen.getByText('Kendrick Lamar Mr. Morale Tour')).toBeInTheDocument();
   });
 
+  test('links each ticket to its event page', () => {
+    render(<TicketList tickets={mockTickets} />);
+
+    expect(screen.getByRole('link', { name: 'Taylor Swift Eras Tour' })).toHaveAttribute('href', '/events/4');
+  });
+
   test('renders search input with proper accessibility', () => {
     render(<TicketList tickets={mockTickets} />);
     
@@ -54,19 +70,19 @@ describe('TicketList', () => {
     
     // Wait for debounced search to complete (300ms + buffer)
     await waitFor(() => {
-      expect(screen.getByText('Taylor Swift Eras Tour')).toBeInTheDocument();
-      expect(screen.queryByText('Harry Styles Love on Tour')).not.toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Taylor Swift Eras Tour'))).toBeInTheDocument();
+      expect(screen.queryByText(ticketTitle('Harry Styles Love on Tour'))).not.toBeInTheDocument();
     }, { timeout: 1000 });
     
     // Search for "TOUR" (uppercase)
     fireEvent.change(searchInput, { target: { value: 'TOUR' } });
     
     await waitFor(() => {
-      expect(screen.getByText('Olivia Rodrigo Guts Tour')).toBeInTheDocument();
-      expect(screen.getByText('Harry Styles Love on Tour')).toBeInTheDocument();
-      expect(screen.getByText('Taylor Swift Eras Tour')).toBeInTheDocument();
-      expect(screen.getByText('Kendrick Lamar Mr. Morale Tour')).toBeInTheDocument();
-      expect(screen.queryByText('Billie Eilish Happier Than Ever')).not.toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Olivia Rodrigo Guts Tour'))).toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Harry Styles Love on Tour'))).toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Taylor Swift Eras Tour'))).toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Kendrick Lamar Mr. Morale Tour'))).toBeInTheDocument();
+      expect(screen.queryByText(ticketTitle('Billie Eilish Happier Than Ever'))).not.toBeInTheDocument();
     }, { timeout: 1000 });
   });
 
@@ -91,8 +107,8 @@ describe('TicketList', () => {
     fireEvent.change(searchInput, { target: { value: 'Taylor' } });
     
     await waitFor(() => {
-      expect(screen.getByText('Taylor Swift Eras Tour')).toBeInTheDocument();
-      expect(screen.queryByText('Harry Styles Love on Tour')).not.toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Taylor Swift Eras Tour'))).toBeInTheDocument();
+      expect(screen.queryByText(ticketTitle('Harry Styles Love on Tour'))).not.toBeInTheDocument();
     }, { timeout: 1000 });
     
     // Clear the search
@@ -101,8 +117,8 @@ describe('TicketList', () => {
     
     await waitFor(() => {
       expect(searchInput).toHaveValue('');
-      expect(screen.getByText('Taylor Swift Eras Tour')).toBeInTheDocument();
-      expect(screen.getByText('Harry Styles Love on Tour')).toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Taylor Swift Eras Tour'))).toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Harry Styles Love on Tour'))).toBeInTheDocument();
     }, { timeout: 1000 });
   });
 
@@ -158,7 +174,7 @@ describe('TicketList', () => {
     
     // Wait for search to complete
     await waitFor(() => {
-      expect(screen.getByText('Olivia Rodrigo Guts Tour')).toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Olivia Rodrigo Guts Tour'))).toBeInTheDocument();
     }, { timeout: 1000 });
     
     // Sort by price descending
@@ -205,7 +221,7 @@ describe('TicketList', () => {
     await new Promise(resolve => setTimeout(resolve, 400));
     
     await waitFor(() => {
-      expect(screen.getByText('Olivia Rodrigo Guts Tour')).toBeInTheDocument();
+      expect(screen.getByText(ticketTitle('Olivia Rodrigo Guts Tour'))).toBeInTheDocument();
     }, { timeout: 1000 });
     
     const sortSelect = screen.getByLabelText('Sort tickets');
@@ -215,9 +231,9 @@ describe('TicketList', () => {
     expect(searchInput).toHaveValue('tour');
     
     // Should still show filtered results
-    expect(screen.getByText('Harry Styles Love on Tour')).toBeInTheDocument();
-    expect(screen.getByText('Taylor Swift Eras Tour')).toBeInTheDocument();
-    expect(screen.queryByText('Billie Eilish Happier Than Ever')).not.toBeInTheDocument();
+    expect(screen.getByText(ticketTitle('Harry Styles Love on Tour'))).toBeInTheDocument();
+    expect(screen.getByText(ticketTitle('Taylor Swift Eras Tour'))).toBeInTheDocument();
+    expect(screen.queryByText(ticketTitle('Billie Eilish Happier Than Ever'))).not.toBeInTheDocument();
   });
 
   test('maintains sort state when search changes', async () => {
@@ -279,3 +295,469 @@ describe('TicketList', () => {
     expect(screen.getByText('€99.99')).toBeInTheDocument();
   });
 });
+
+describe('TicketList paging modes', () => {
+  // 45 tickets priced 1..45, so the default price sort keeps them in id order
+  const manyTickets: Ticket[] = Array.from({ length: 45 }, (_, i) => ({
+    id: String(i + 1),
+    title: `Event ${i + 1}`,
+    price: i + 1,
+    currency: 'USD',
+  }));
+
+  test('renders every ticket in "all" mode', () => {
+    render(<TicketList tickets={manyTickets} pageSize={10} />);
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(45);
+    expect(screen.queryByRole('navigation')).not.toBeInTheDocument();
+  });
+
+  test('shows one page at a time with accessible controls', () => {
+    render(<TicketList tickets={manyTickets} mode="paged" pageSize={20} />);
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(20);
+    expect(screen.getByText('Page 1 of 3 (45 tickets)')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Previous page' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Page 1' })).toHaveAttribute('aria-current', 'page');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Page 3' }));
+
+    const items = screen.getAllByRole('listitem');
+    expect(items).toHaveLength(5);
+    expect(items[0]).toHaveTextContent('Event 41');
+    expect(screen.getByRole('button', { name: 'Next page' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Page 3' })).toHaveAttribute('aria-current', 'page');
+  });
+
+  test('syncs the current page with the URL', () => {
+    window.history.replaceState({}, '', '/?page=2');
+    render(<TicketList tickets={manyTickets} mode="paged" pageSize={20} />);
+
+    expect(screen.getAllByRole('listitem')[0]).toHaveTextContent('Event 21');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+    expect(window.location.search).toBe('?page=3');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Page 1' }));
+    expect(window.location.search).toBe('');
+  });
+
+  test('clamps a page number beyond the last page', () => {
+    window.history.replaceState({}, '', '/?page=99');
+    render(<TicketList tickets={manyTickets} mode="paged" pageSize={20} />);
+
+    expect(screen.getByText('Page 3 of 3 (45 tickets)')).toBeInTheDocument();
+  });
+
+  test('returns to the first page when the sort changes', () => {
+    render(<TicketList tickets={manyTickets} mode="paged" pageSize={20} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+    expect(screen.getByText('Page 2 of 3 (45 tickets)')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Sort tickets'), { target: { value: 'price-desc' } });
+
+    expect(screen.getByText('Page 1 of 3 (45 tickets)')).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem')[0]).toHaveTextContent('Event 45');
+  });
+
+  test('returns to the first page when the search changes', async () => {
+    render(<TicketList tickets={manyTickets} mode="paged" pageSize={5} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+    expect(screen.getByText('Page 3 of 9 (45 tickets)')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Search tickets'), { target: { value: 'Event 1' } });
+
+    // "Event 1" matches 1 and 10-19
+    await waitFor(() => {
+      expect(screen.getByText('Page 1 of 3 (11 tickets)')).toBeInTheDocument();
+    }, { timeout: 1000 });
+  });
+
+  describe('infinite mode', () => {
+    let observerCallback: IntersectionObserverCallback | undefined;
+    const originalObserver = window.IntersectionObserver;
+
+    beforeEach(() => {
+      observerCallback = undefined;
+      window.IntersectionObserver = jest.fn((callback: IntersectionObserverCallback) => {
+        observerCallback = callback;
+        return { observe: jest.fn(), unobserve: jest.fn(), disconnect: jest.fn() };
+      }) as unknown as typeof IntersectionObserver;
+    });
+
+    afterEach(() => {
+      window.IntersectionObserver = originalObserver;
+    });
+
+    const scrollToSentinel = () => {
+      act(() => {
+        observerCallback?.([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+      });
+    };
+
+    test('loads the next batch when the sentinel comes into view', () => {
+      render(<TicketList tickets={manyTickets} mode="infinite" pageSize={20} />);
+
+      expect(screen.getAllByRole('listitem')).toHaveLength(20);
+      expect(screen.getByText('Showing 20 of 45 tickets')).toBeInTheDocument();
+
+      scrollToSentinel();
+      expect(screen.getAllByRole('listitem')).toHaveLength(40);
+
+      scrollToSentinel();
+      expect(screen.getAllByRole('listitem')).toHaveLength(45);
+      expect(screen.queryByRole('button', { name: 'Load more tickets' })).not.toBeInTheDocument();
+    });
+
+    test('loads more from the button and starts over when the sort changes', () => {
+      render(<TicketList tickets={manyTickets} mode="infinite" pageSize={20} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Load more tickets' }));
+      expect(screen.getAllByRole('listitem')).toHaveLength(40);
+
+      fireEvent.change(screen.getByLabelText('Sort tickets'), { target: { value: 'title-asc' } });
+      expect(screen.getAllByRole('listitem')).toHaveLength(20);
+    });
+  });
+});
+
+describe('TicketList currency conversion', () => {
+  // 1 EUR = 2 USD, 1 GBP = 4 USD
+  const rateProvider = createStaticRateProvider({ base: 'USD', rates: { USD: 1, EUR: 0.5, GBP: 0.25 } });
+  const mixedTickets: Ticket[] = [
+    { id: 'a', title: 'Dollar Show', price: 60, currency: 'USD' },
+    { id: 'b', title: 'Euro Show', price: 50, currency: 'EUR' },
+    { id: 'c', title: 'Pound Show', price: 20, currency: 'GBP' },
+  ];
+
+  test('sorts by value in the display currency rather than the raw price', () => {
+    render(<TicketList tickets={mixedTickets} rateProvider={rateProvider} />);
+
+    const items = screen.getAllByRole('listitem');
+    expect(items.map((item) => item.querySelector('strong')?.textContent)).toEqual([
+      'Dollar Show',
+      'Pound Show',
+      'Euro Show',
+    ]);
+  });
+
+  test('shows the original and the converted price', () => {
+    render(<TicketList tickets={mixedTickets} rateProvider={rateProvider} />);
+
+    expect(screen.getByText('€50.00')).toBeInTheDocument();
+    expect(screen.getByText('≈ $100.00')).toBeInTheDocument();
+    expect(screen.getByText('£20.00')).toBeInTheDocument();
+    expect(screen.getByText('≈ $80.00')).toBeInTheDocument();
+    // Prices already in the display currency aren't repeated
+    expect(screen.queryByText('≈ $60.00')).not.toBeInTheDocument();
+  });
+
+  test('switches the display currency from the selector', () => {
+    render(<TicketList tickets={mixedTickets} rateProvider={rateProvider} />);
+
+    const select = screen.getByLabelText('Display in');
+    expect(select).toHaveValue('USD');
+    expect(Array.from((select as HTMLSelectElement).options).map((o) => o.value)).toEqual(['USD', 'EUR', 'GBP']);
+
+    fireEvent.change(select, { target: { value: 'EUR' } });
+
+    expect(screen.getByText('≈ €30.00')).toBeInTheDocument();
+    expect(screen.getByText('≈ €40.00')).toBeInTheDocument();
+    expect(screen.queryByText('≈ €50.00')).not.toBeInTheDocument();
+  });
+
+  test('starts in the displayCurrency prop', () => {
+    render(<TicketList tickets={mixedTickets} rateProvider={rateProvider} displayCurrency="GBP" />);
+
+    expect(screen.getByLabelText('Display in')).toHaveValue('GBP');
+    expect(screen.getByText('≈ £15.00')).toBeInTheDocument();
+  });
+
+  test('falls back to the default currency for a display= code without a rate', () => {
+    window.history.replaceState({}, '', '/?display=KRW');
+    render(<TicketList tickets={mixedTickets} rateProvider={rateProvider} />);
+
+    expect(screen.getByLabelText('Display in')).toHaveValue('USD');
+    expect(screen.getByText('≈ $100.00')).toBeInTheDocument();
+    expect(window.location.search).toBe('');
+  });
+
+  test('falls back for a displayCurrency prop without a rate', () => {
+    render(<TicketList tickets={mixedTickets} rateProvider={rateProvider} displayCurrency="KWD" />);
+
+    const select = screen.getByLabelText('Display in') as HTMLSelectElement;
+    expect(select).toHaveValue('USD');
+    expect(Array.from(select.options).map((o) => o.value)).toContain(select.value);
+    expect(window.location.search).toBe('');
+  });
+
+  test('sorts tickets without a rate last', () => {
+    const noPounds = createStaticRateProvider({ base: 'USD', rates: { USD: 1, EUR: 0.5 } });
+    render(<TicketList tickets={mixedTickets} rateProvider={noPounds} />);
+
+    fireEvent.change(screen.getByLabelText('Sort tickets'), { target: { value: 'price-desc' } });
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('Euro Show');
+    expect(items[2]).toHaveTextContent('Pound Show');
+  });
+});
+
+describe('TicketList event details', () => {
+  const detailedTickets: Ticket[] = [
+    {
+      id: 'eras',
+      title: 'Taylor Swift Eras Tour',
+      price: 250,
+      currency: 'USD',
+      startsAt: new Date('2025-07-13T00:00:00Z'),
+      timeZone: 'America/New_York',
+      venue: 'Madison Square Garden',
+      city: 'New York',
+      category: 'Pop',
+      quantityAvailable: 0,
+      section: '104',
+      row: 'F',
+    },
+    { id: 'guts', title: 'Olivia Rodrigo Guts Tour', price: 125, currency: 'USD', quantityAvailable: 4 },
+  ];
+
+  test('shows the date in the venue time zone with place and seat', () => {
+    render(<TicketList tickets={detailedTickets} />);
+
+    const time = screen.getByText('Sat, Jul 12, 2025, 8:00 PM EDT');
+    expect(time.tagName).toBe('TIME');
+    expect(time).toHaveAttribute('datetime', '2025-07-13T00:00:00.000Z');
+    expect(screen.getByText('Madison Square Garden, New York')).toBeInTheDocument();
+    expect(screen.getByText('Section 104, Row F')).toBeInTheDocument();
+    expect(screen.getByText('Pop')).toBeInTheDocument();
+  });
+
+  test('shows availability', () => {
+    render(<TicketList tickets={detailedTickets} />);
+
+    expect(screen.getByText('Sold out')).toBeInTheDocument();
+    expect(screen.getByText('Only 4 left')).toBeInTheDocument();
+  });
+
+  test('leaves out details a ticket does not have', () => {
+    render(<TicketList tickets={mockTickets} />);
+
+    expect(screen.getAllByRole('listitem')[0]!.querySelector('p')).toBeNull();
+  });
+});
+
+describe('TicketList facets', () => {
+  const facetTickets: Ticket[] = [
+    { id: '1', title: 'Pop Night', price: 40, currency: 'USD', category: 'Pop', startsAt: new Date('2025-07-12T20:00:00Z') },
+    { id: '2', title: 'Pop Matinee', price: 20, currency: 'USD', category: 'Pop', startsAt: new Date('2025-08-02T15:00:00Z') },
+    { id: '3', title: 'Jazz Club', price: 60, currency: 'USD', category: 'Jazz', startsAt: new Date('2025-07-19T21:00:00Z') },
+    { id: '4', title: 'Opera Gala', price: 100, currency: 'EUR', category: 'Classical', startsAt: new Date('2025-09-01T19:00:00Z') },
+  ];
+  // 1 EUR = 1 USD keeps the numbers readable
+  const rateProvider = createStaticRateProvider({ base: 'USD', rates: { USD: 1, EUR: 1 } });
+
+  const titles = () => screen.queryAllByRole('listitem').map((item) => item.querySelector('strong')?.textContent);
+
+  test('lists categories with counts and filters by them', () => {
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} />);
+
+    expect(screen.getByRole('checkbox', { name: 'Pop (2)' })).not.toBeChecked();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Pop (2)' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Jazz (1)' }));
+
+    expect(titles()).toEqual(['Pop Matinee', 'Pop Night', 'Jazz Club']);
+    expect(window.location.search).toBe('?category=Pop%2CJazz');
+  });
+
+  test('category counts follow the other facets', () => {
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} />);
+
+    fireEvent.change(screen.getByLabelText('Ticket currency'), { target: { value: 'EUR' } });
+
+    expect(screen.getAllByRole('checkbox').map((box) => box.parentElement?.textContent)).toEqual(['Classical (1)']);
+    expect(titles()).toEqual(['Opera Gala']);
+  });
+
+  test('filters by price range', () => {
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} />);
+
+    fireEvent.change(screen.getByRole('slider', { name: 'Minimum price' }), { target: { value: '30' } });
+    fireEvent.change(screen.getByRole('slider', { name: 'Maximum price' }), { target: { value: '70' } });
+
+    expect(titles()).toEqual(['Pop Night', 'Jazz Club']);
+    expect(screen.getByText('$30 – $70')).toBeInTheDocument();
+    expect(window.location.search).toBe('?minPrice=30&maxPrice=70');
+  });
+
+  test('filters by date range', () => {
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} />);
+
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2025-07-15' } });
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2025-08-31' } });
+
+    expect(titles()).toEqual(['Pop Matinee', 'Jazz Club']);
+  });
+
+  test('restores filters from a shared link', () => {
+    window.history.replaceState({}, '', '/?category=Pop&maxPrice=30');
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} />);
+
+    expect(screen.getByRole('checkbox', { name: 'Pop (1)' })).toBeChecked();
+    expect(titles()).toEqual(['Pop Matinee']);
+  });
+
+  test('clears every filter at once', () => {
+    window.history.replaceState({}, '', '/?category=Jazz&currency=USD');
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear filters' }));
+
+    expect(titles()).toHaveLength(4);
+    expect(window.location.search).toBe('');
+  });
+
+  test('explains an empty result', () => {
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} />);
+
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2026-01-01' } });
+
+    expect(screen.getByText('No tickets match the selected filters')).toBeInTheDocument();
+  });
+
+  test('returns to the first page when a filter changes', () => {
+    render(<TicketList tickets={facetTickets} rateProvider={rateProvider} mode="paged" pageSize={2} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+    expect(screen.getByText('Page 2 of 2 (4 tickets)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Pop (2)' }));
+
+    expect(screen.getByText('Page 1 of 1 (2 tickets)')).toBeInTheDocument();
+  });
+});
+
+describe('TicketList fuzzy search', () => {
+  const searchTickets: Ticket[] = [
+    { id: '1', title: 'Taylor Swift Eras Tour', price: 275, currency: 'USD' },
+    { id: '2', title: 'Beyoncé Renaissance World Tour', price: 180, currency: 'USD' },
+    { id: '3', title: 'Swift River Jazz Festival', price: 45, currency: 'USD' },
+    { id: '4', title: 'The Tourists Reunion', price: 60, currency: 'USD' },
+  ];
+
+  const search = async (term: string) => {
+    fireEvent.change(screen.getByLabelText('Search tickets'), { target: { value: term } });
+    // Wait out the SearchBar debounce
+    await act(() => new Promise((resolve) => setTimeout(resolve, 350)));
+  };
+
+  const titles = () => screen.queryAllByRole('listitem').map((item) => item.querySelector('strong')?.textContent);
+
+  test('matches words in any order, with accents and typos', async () => {
+    render(<TicketList tickets={searchTickets} />);
+
+    await search('eras swift');
+    expect(titles()).toEqual(['Taylor Swift Eras Tour']);
+
+    await search('beyonce');
+    expect(titles()).toEqual(['Beyoncé Renaissance World Tour']);
+
+    await search('tailor swfit');
+    expect(titles()).toEqual(['Taylor Swift Eras Tour']);
+  });
+
+  test('highlights the matched parts of each title', async () => {
+    render(<TicketList tickets={searchTickets} />);
+
+    await search('beyonce tour');
+
+    expect(screen.getAllByRole('mark').map((mark) => mark.textContent)).toEqual(['Beyoncé', 'Tour']);
+  });
+
+  test('sorts by relevance with "Best match"', async () => {
+    render(<TicketList tickets={searchTickets} />);
+
+    fireEvent.change(screen.getByLabelText('Sort tickets'), { target: { value: 'relevance' } });
+    await search('swift');
+
+    // The title that starts with the word ranks above the one that contains it
+    expect(titles()).toEqual(['Swift River Jazz Festival', 'Taylor Swift Eras Tour']);
+
+    await search('tour');
+    expect(titles()).toEqual(['Taylor Swift Eras Tour', 'Beyoncé Renaissance World Tour', 'The Tourists Reunion']);
+  });
+
+  test('keeps the chosen sort order for search results', async () => {
+    render(<TicketList tickets={searchTickets} />);
+
+    await search('tour');
+
+    // Price: Low to High stays the default
+    expect(titles()).toEqual(['The Tourists Reunion', 'Beyoncé Renaissance World Tour', 'Taylor Swift Eras Tour']);
+  });
+});
+
+describe('TicketList suggestions', () => {
+  const suggestionTickets: Ticket[] = [
+    { id: '1', title: 'Jazz at the Park', price: 30, currency: 'USD', category: 'Pop' },
+    { id: '2', title: 'Blue Note Sessions', price: 55, currency: 'USD', category: 'Jazz' },
+    { id: '3', title: 'Jazzfest Opening Night', price: 80, currency: 'USD', category: 'Jazz' },
+  ];
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  test('suggests categories and event titles', () => {
+    render(<TicketList tickets={suggestionTickets} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Search tickets' }), { target: { value: 'jaz' } });
+
+    // Equally good title matches list the shorter title first
+    const options = within(screen.getByRole('listbox', { name: 'Suggestions' })).getAllByRole('option');
+    expect(options.map((option) => option.textContent)).toEqual([
+      'JazzCategory',
+      'Jazzfest Opening NightEvent',
+      'Jazz at the ParkEvent',
+    ]);
+  });
+
+  test('picking an event title searches for it right away', () => {
+    render(<TicketList tickets={suggestionTickets} />);
+    const input = screen.getByRole('combobox', { name: 'Search tickets' });
+
+    fireEvent.change(input, { target: { value: 'opening' } });
+    fireEvent.click(screen.getByRole('option', { name: /Jazzfest Opening Night/ }));
+
+    expect(input).toHaveValue('Jazzfest Opening Night');
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+  });
+
+  test('picking a category filters by it instead of searching', () => {
+    render(<TicketList tickets={suggestionTickets} />);
+    const input = screen.getByRole('combobox', { name: 'Search tickets' });
+
+    fireEvent.change(input, { target: { value: 'jaz' } });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(input).toHaveValue('');
+    expect(screen.getByRole('checkbox', { name: 'Jazz (2)' })).toBeChecked();
+    expect(screen.getAllByRole('listitem').map((item) => item.querySelector('strong')?.textContent)).toEqual([
+      'Blue Note Sessions',
+      'Jazzfest Opening Night',
+    ]);
+  });
+
+  test('offers recent searches', () => {
+    window.localStorage.setItem('recent-searches:ticket-search', JSON.stringify(['blue note']));
+    render(<TicketList tickets={suggestionTickets} />);
+
+    fireEvent.focus(screen.getByRole('combobox', { name: 'Search tickets' }));
+
+    expect(screen.getByRole('option', { name: 'blue note' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,133 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import VirtualList from '../src/components/VirtualList';
+import TicketList from '../src/components/TicketList';
+import CardList from '../src/components/CardList';
+import type { Ticket } from '../src/types';
+
+const rows = Array.from({ length: 1000 }, (_, i) => ({ id: `row-${i + 1}`, label: `Row ${i + 1}` }));
+
+function renderRows(props: Partial<React.ComponentProps<typeof VirtualList<(typeof rows)[number]>>> = {}) {
+  return render(
+    <VirtualList
+      items={rows}
+      getKey={(row) => row.id}
+      renderItem={(row) => row.label}
+      height={600}
+      estimatedItemHeight={60}
+      overscan={5}
+      aria-label="Rows"
+      {...props}
+    />
+  );
+}
+
+function scrollTo(list: HTMLElement, top: number) {
+  const viewport = list.parentElement!;
+  viewport.scrollTop = top;
+  fireEvent.scroll(viewport);
+}
+
+describe('VirtualList', () => {
+  test('mounts only the rows in view plus overscan', () => {
+    renderRows();
+
+    // 600px / 60px = 10 rows in view, 5 overscan below
+    const items = screen.getAllByRole('listitem');
+    expect(items).toHaveLength(15);
+    expect(items[0]).toHaveTextContent('Row 1');
+    expect(screen.getByRole('list', { name: 'Rows' })).toHaveStyle({ height: '60000px' });
+  });
+
+  test('keeps list semantics for the full list', () => {
+    renderRows();
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0]).toHaveAttribute('aria-setsize', '1000');
+    expect(items[0]).toHaveAttribute('aria-posinset', '1');
+    expect(items[14]).toHaveAttribute('aria-posinset', '15');
+  });
+
+  test('moves the window as the viewport scrolls', () => {
+    renderRows();
+
+    scrollTo(screen.getByRole('list'), 30000);
+
+    const items = screen.getAllByRole('listitem');
+    // Row 501 starts at 30000px; overscan adds 5 rows each side, the focusable first row stays mounted
+    expect(items.map((item) => item.getAttribute('aria-posinset'))).toEqual(
+      ['1', ...Array.from({ length: 20 }, (_, i) => String(496 + i))]
+    );
+    expect(screen.getByText('Row 501')).toBeInTheDocument();
+  });
+
+  test('moves focus between rows with the keyboard', () => {
+    renderRows();
+
+    const first = screen.getByText('Row 1');
+    first.focus();
+    fireEvent.keyDown(first, { key: 'ArrowDown' });
+    expect(screen.getByText('Row 2')).toHaveFocus();
+    expect(screen.getByText('Row 2')).toHaveAttribute('tabindex', '0');
+    expect(first).toHaveAttribute('tabindex', '-1');
+
+    fireEvent.keyDown(screen.getByText('Row 2'), { key: 'End' });
+    const last = screen.getByText('Row 1000');
+    expect(last).toHaveFocus();
+    expect(last).toHaveAttribute('aria-posinset', '1000');
+
+    fireEvent.keyDown(last, { key: 'Home' });
+    expect(screen.getByText('Row 1')).toHaveFocus();
+  });
+
+  test('lays out rows by their measured heights', () => {
+    // Odd rows render twice as tall as the estimate
+    const spy = jest.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockImplementation(function (this: HTMLElement) {
+      return Number(this.dataset.index) % 2 === 1 ? 120 : 60;
+    });
+
+    renderRows();
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[1]).toHaveStyle({ top: '60px' });
+    expect(items[2]).toHaveStyle({ top: '180px' });
+    expect(items[3]).toHaveStyle({ top: '240px' });
+
+    spy.mockRestore();
+  });
+});
+
+describe('virtual rendering benchmark', () => {
+  const tenThousandTickets: Ticket[] = Array.from({ length: 10_000 }, (_, i) => ({
+    id: `ticket-${i + 1}`,
+    title: `Generated Event ${i + 1}`,
+    price: i + 1,
+    currency: 'USD',
+  }));
+
+  test('TicketList keeps the mounted node count bounded for 10,000 tickets', () => {
+    const { container } = render(<TicketList tickets={tenThousandTickets} mode="virtual" />);
+
+    const initialNodes = container.querySelectorAll('*').length;
+    expect(screen.getAllByRole('listitem').length).toBeLessThanOrEqual(20);
+    expect(initialNodes).toBeLessThan(200);
+    expect(screen.getAllByRole('listitem')[0]).toHaveAttribute('aria-setsize', '10000');
+
+    // Jump to the middle of the list
+    scrollTo(screen.getByRole('list', { name: 'Tickets' }), 5000 * 84);
+
+    expect(screen.getByText('Generated Event 5001')).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem').length).toBeLessThanOrEqual(30);
+    expect(container.querySelectorAll('*').length).toBeLessThan(initialNodes * 2);
+  });
+
+  test('CardList keeps the mounted node count bounded for 10,000 items', () => {
+    const items = tenThousandTickets.map((ticket) => ({ title: ticket.title, price: ticket.price, href: `/events/${ticket.id}` }));
+
+    const { container } = render(<CardList items={items} mode="virtual" />);
+
+    expect(screen.getAllByRole('listitem').length).toBeLessThanOrEqual(30);
+    expect(container.querySelectorAll('*').length).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Request APIs for tests, picked up automatically for `next/headers`.
+ *
+ * Draft mode starts off and stays as a test leaves it, like the cookie it
+ * stands for; call `(await draftMode()).disable()` to reset it.
+ */
+
+let draftModeEnabled = false;
+
+export async function draftMode() {
+  return {
+    get isEnabled() {
+      return draftModeEnabled;
+    },
+    enable() {
+      draftModeEnabled = true;
+    },
+    disable() {
+      draftModeEnabled = false;
+    },
+  };
+}
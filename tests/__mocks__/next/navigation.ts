@@ -0,0 +1,55 @@
+/**
+ * App Router stand-in for jsdom, picked up automatically for `next/navigation`.
+ *
+ * Navigations go through window.history, and usePathname/useSearchParams
+ * re-render after router navigations and on popstate (back/forward), like
+ * the real router does.
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+
+// The real thing: throws the error Next turns into a 404
+export { notFound } from 'next/dist/client/components/not-found';
+
+const NAVIGATE_EVENT = 'mock-router-navigate';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+const currentSearch = () => window.location?.search ?? '';
+const currentPathname = () => window.location?.pathname ?? '/';
+
+function navigate(method: 'pushState' | 'replaceState') {
+  return (href: string) => {
+    window.history[method]({}, '', href);
+    window.dispatchEvent(new Event(NAVIGATE_EVENT));
+  };
+}
+
+export const mockRouter = {
+  push: jest.fn(navigate('pushState')),
+  replace: jest.fn(navigate('replaceState')),
+  back: jest.fn(() => window.history.back()),
+  forward: jest.fn(() => window.history.forward()),
+  refresh: jest.fn(),
+  prefetch: jest.fn(),
+};
+
+export function useRouter() {
+  return mockRouter;
+}
+
+export function usePathname() {
+  return useSyncExternalStore(subscribe, currentPathname, () => '/');
+}
+
+export function useSearchParams() {
+  const search = useSyncExternalStore(subscribe, currentSearch, () => '');
+  return useMemo(() => new URLSearchParams(search), [search]);
+}
@@ -0,0 +1,7 @@
+/**
+ * CSS modules in tests: every class name maps to itself, so
+ * `styles.primary` is "primary". jsdom doesn't apply stylesheets anyway.
+ */
+const styles: Record<string, string> = new Proxy({}, { get: (_, key) => (typeof key === 'string' ? key : undefined) });
+
+export default styles;
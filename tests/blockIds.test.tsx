@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { renderBlocks } from '../src/renderBlocks';
+import { createBlockIdGenerator, withBlockIds } from '../src/lib/blockIds';
+import { createRegistry, defineBlock, registry } from '../src/registry';
+import { validateBlocks } from '../src/lib/validatePageDoc';
+import type { RegistryBlock } from '../src/registry';
+import type { Block } from '../src/types';
+
+function Counter({ label }: { label: string }) {
+  const [count, setCount] = useState(0);
+  return <button onClick={() => setCount(count + 1)}>{label}:{count}</button>;
+}
+
+const local = createRegistry([defineBlock({ type: 'Counter', component: Counter, schema: {} })]);
+type LocalBlock = RegistryBlock<typeof local>;
+
+describe('block ids', () => {
+  test('generates deterministic ids from type and position', () => {
+    const blocks: Block[] = [
+      { type: 'Hero', props: { title: 'A' } },
+      { type: 'Hero', props: { title: 'B' } },
+    ];
+
+    const first = withBlockIds(blocks);
+
+    expect(first[0]!.id).toMatch(/^hero-[0-9a-z]+$/);
+    expect(first[0]!.id).not.toBe(first[1]!.id);
+    expect(withBlockIds(blocks).map((b) => b.id)).toEqual(first.map((b) => b.id));
+  });
+
+  test('editing a prop keeps the id', () => {
+    const before: Block[] = [{ type: 'Hero', props: { title: 'Draft title' } }];
+    const after: Block[] = [{ type: 'Hero', props: { title: 'Final title', subtitle: 'Added later' } }];
+
+    expect(withBlockIds(after)[0]!.id).toBe(withBlockIds(before)[0]!.id);
+  });
+
+  test('keeps explicit ids and disambiguates clashing ones', () => {
+    const blockId = createBlockIdGenerator();
+    const hero = { type: 'Hero', props: { title: 'Same' } };
+
+    const a = blockId(hero, { index: 0 });
+    expect(blockId({ ...hero, id: 'hero-main' }, { index: 1 })).toBe('hero-main');
+    expect(blockId(hero, { index: 0 })).toBe(`${a}-2`);
+  });
+
+  test('places nested blocks under their parent', () => {
+    const lookup = (type: string) => registry.get(type)?.schema;
+    const section = (title: string, id?: string): Block => ({
+      id,
+      type: 'Section',
+      props: { children: [{ type: 'Hero', props: { title } }] },
+    });
+    const children = (block: Block | undefined) => (block?.type === 'Section' ? block.props.children : []);
+
+    const [a] = withBlockIds([section('one')], lookup);
+    const [b] = withBlockIds([section('two')], lookup);
+    const [c] = withBlockIds([section('one', 'intro')], lookup);
+
+    expect(a!.id).toBe(b!.id);
+    expect(children(a)[0]!.id).toBe(children(b)[0]!.id);
+    expect(children(c)[0]!.id).not.toBe(children(a)[0]!.id);
+  });
+
+  test('exposes ids on the DOM as data-block-id', () => {
+    const { container } = render(
+      <>
+        {renderBlocks([
+          { id: 'intro', type: 'Hero', props: { title: 'Hi' } },
+          { type: 'Hero', props: { title: 'There' } },
+        ])}
+      </>
+    );
+
+    const ids = Array.from(container.querySelectorAll('[data-block-id]')).map((el) => el.getAttribute('data-block-id'));
+    expect(ids[0]).toBe('intro');
+    expect(ids[1]).toMatch(/^hero-/);
+    expect(container.querySelector('[data-block-id="intro"]')).toHaveTextContent('Hi');
+  });
+
+  test('reordering blocks with stored ids keeps component state', () => {
+    const blocks = withBlockIds<LocalBlock>([
+      { type: 'Counter', props: { label: 'first' } },
+      { type: 'Counter', props: { label: 'second' } },
+    ]);
+    const { rerender } = render(<>{renderBlocks(blocks, { registry: local })}</>);
+
+    fireEvent.click(screen.getByText('second:0'));
+    rerender(<>{renderBlocks([...blocks].reverse(), { registry: local })}</>);
+
+    expect(screen.getByText('second:1')).toBeInTheDocument();
+    expect(screen.getAllByRole('button').map((b) => b.textContent)).toEqual(['second:1', 'first:0']);
+  });
+
+  test('validation drops malformed ids', () => {
+    const { value, issues } = validateBlocks([{ id: 7, type: 'Hero', props: { title: 'T' } }]);
+
+    expect(value).toEqual([{ type: 'Hero', props: { title: 'T' } }]);
+    expect(issues).toEqual([{ path: 'blocks[0].id', message: 'expected non-empty string' }]);
+  });
+});
@@ -0,0 +1,122 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { renderBlocks } from '../src/renderBlocks';
+import { createRegistry, defineBlock } from '../src/registry';
+import type { RegistryBlock } from '../src/registry';
+import { formatIssue } from '../src/lib/propSchema';
+import { validateBlocks } from '../src/lib/validatePageDoc';
+import type { Block } from '../src/types';
+
+const frameOf = (text: string) => screen.getByText(text).closest('[data-block-id]') as HTMLElement;
+
+describe('block layout fields', () => {
+  test('leaves blocks without layout fields out of the layout', () => {
+    render(<>{renderBlocks([{ id: 'intro', type: 'Hero', props: { title: 'Welcome' } }])}</>);
+    const frame = frameOf('Welcome');
+
+    expect(frame).toHaveClass('frame');
+    expect(frame).not.toHaveAttribute('style');
+    expect(frame).not.toHaveAttribute('id');
+  });
+
+  test('applies width, padding, alignment and background around any block', () => {
+    const blocks: Block[] = [
+      {
+        type: 'CTA',
+        props: { label: 'Buy', href: '/buy' },
+        layout: { maxWidth: '640px', padding: '2rem 1rem', align: 'center' },
+        background: '#f5f3ff',
+      },
+      { type: 'Footer', props: { title: 'Fine print' }, layout: { maxWidth: '320px', align: 'right' } },
+    ];
+    render(<>{renderBlocks(blocks)}</>);
+
+    const cta = frameOf('Buy');
+    expect(cta).toHaveClass('box');
+    expect(cta).toHaveStyle({
+      maxWidth: '640px',
+      padding: '2rem 1rem',
+      textAlign: 'center',
+      marginLeft: 'auto',
+      marginRight: 'auto',
+      background: '#f5f3ff',
+    });
+
+    const footer = frameOf('Fine print');
+    expect(footer).toHaveStyle({ maxWidth: '320px', textAlign: 'right', marginLeft: 'auto' });
+    expect(footer.style.marginRight).toBe('');
+  });
+
+  test('renders anchorId as the element id', () => {
+    render(<>{renderBlocks([{ type: 'Hero', props: { title: 'Tickets' }, anchorId: 'tickets' }])}</>);
+
+    expect(frameOf('Tickets')).toHaveAttribute('id', 'tickets');
+    expect(frameOf('Tickets')).toHaveClass('box');
+  });
+
+  test('hides blocks per viewport with breakpoint classes', () => {
+    const blocks: Block[] = [
+      { type: 'Hero', props: { title: 'Desktop only' }, hideOn: ['mobile'] },
+      { type: 'Hero', props: { title: 'Mobile only' }, hideOn: ['desktop'] },
+      { type: 'Hero', props: { title: 'Nowhere' }, hideOn: ['mobile', 'desktop'] },
+    ];
+    render(<>{renderBlocks(blocks)}</>);
+
+    expect(frameOf('Desktop only').className).toBe('frame hideOnMobile');
+    expect(frameOf('Mobile only').className).toBe('frame hideOnDesktop');
+    expect(frameOf('Nowhere').className).toBe('frame hideOnMobile hideOnDesktop');
+  });
+
+  test('applies to nested blocks and custom registry blocks without changing their components', () => {
+    const Badge = jest.fn(({ text }: { text: string }) => <span>{text}</span>);
+    const local = createRegistry([defineBlock({ type: 'Badge', component: Badge, schema: { text: { kind: 'string', required: true } } })]);
+    const blocks: RegistryBlock<typeof local>[] = [
+      { type: 'Badge', props: { text: 'New' }, layout: { padding: '1rem' }, anchorId: 'badge', hideOn: ['desktop'] },
+    ];
+    render(<>{renderBlocks(blocks, { registry: local })}</>);
+
+    expect(frameOf('New')).toHaveAttribute('id', 'badge');
+    expect(Badge.mock.calls[0]![0]).toEqual({ text: 'New' });
+
+    render(
+      <>
+        {renderBlocks([
+          { type: 'Section', props: { children: [{ type: 'Hero', props: { title: 'Inner' }, layout: { maxWidth: '480px' } }] } },
+        ])}
+      </>
+    );
+    expect(frameOf('Inner')).toHaveStyle({ maxWidth: '480px' });
+  });
+
+  test('validation keeps valid fields and drops invalid ones', () => {
+    const valid: Block = {
+      type: 'Hero',
+      props: { title: 'A' },
+      layout: { maxWidth: '640px', padding: '1rem', align: 'left' },
+      background: 'linear-gradient(#fff, #eee)',
+      anchorId: 'top_1',
+      hideOn: ['mobile'],
+    };
+    expect(validateBlocks([valid], { mode: 'strict' }).value).toEqual([valid]);
+
+    const { value, issues } = validateBlocks([
+      {
+        type: 'Hero',
+        props: { title: 'B' },
+        layout: { maxWidth: 640, align: 'middle' },
+        background: 3,
+        anchorId: '1 two',
+        hideOn: ['mobile', 'tablet'],
+      },
+    ]);
+    expect(value).toEqual([{ type: 'Hero', props: { title: 'B' }, layout: {}, hideOn: ['mobile'] }]);
+    expect(issues.map(formatIssue)).toEqual([
+      'blocks[0].layout.maxWidth: expected string',
+      'blocks[0].layout.align: expected one of "left", "center", "right"',
+      'blocks[0].background: expected string',
+      'blocks[0].hideOn[1]: expected one of "mobile", "desktop"',
+      'blocks[0].anchorId: expected a letter followed by letters, digits, "-" or "_"',
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import pageFixture from './fixtures/builder-page.json';
+import newsletterSymbol from './fixtures/builder-symbol-newsletter.json';
+import { builderContentToPageDoc } from '../src/lib/builderAdapter';
+import { registerBuilderComponents, toBuilderComponent } from '../src/lib/builderRegistration';
+import { formatIssue } from '../src/lib/propSchema';
+import { PageDocValidationError } from '../src/lib/validatePageDoc';
+import { createRegistry, defineBlock, registry } from '../src/registry';
+
+describe('builderContentToPageDoc', () => {
+  test('maps recorded page content to a PageDoc', () => {
+    const { value, issues } = builderContentToPageDoc(pageFixture, {
+      symbols: { 'sym-newsletter': newsletterSymbol },
+    });
+
+    expect(value.pageTitle).toBe('Concert Deals');
+    expect(value.blocks.map((block) => block.type)).toEqual([
+      'Hero',
+      'CardList',
+      'CTA',
+      'SearchBar',
+      'TicketList',
+    ]);
+    expect(value.blocks[0]).toEqual({
+      id: 'builder-7a61c0',
+      type: 'Hero',
+      props: { title: 'Hot Tickets Tonight', subtitle: 'Save up to 40%' },
+    });
+    expect(value.blocks[2]).toEqual({
+      id: 'builder-c3d2e8',
+      type: 'CTA',
+      props: { label: 'Browse All Events', href: '/events', variant: 'secondary' },
+    });
+    expect(issues.map(formatIssue)).toEqual([
+      'blocks[4].type: unknown block type "Text"',
+      'blocks[5].props.tickets[1].price: expected number',
+    ]);
+  });
+
+  test('reports symbols that cannot be resolved', () => {
+    const { value, issues } = builderContentToPageDoc(pageFixture);
+
+    expect(value.blocks.map((block) => block.type)).not.toContain('SearchBar');
+    expect(issues.map(formatIssue)).toContain('data.blocks[3]: unresolved symbol "sym-newsletter"');
+  });
+
+  test('guards against self-referencing symbols', () => {
+    const loop = {
+      data: {
+        blocks: [
+          { component: { name: 'Symbol', options: { symbol: { entry: 'loop' } } } },
+        ],
+      },
+    };
+
+    const { value, issues } = builderContentToPageDoc(loop, { symbols: { loop } });
+
+    expect(value.blocks).toEqual([]);
+    expect(issues.map(formatIssue)).toEqual([
+      'data.blocks[0].symbol[0]: symbol "loop" is nested too deeply or references itself',
+    ]);
+  });
+
+  test('throws in strict mode', () => {
+    expect(() => builderContentToPageDoc(pageFixture, { mode: 'strict' })).toThrow(PageDocValidationError);
+  });
+
+  test('unwraps Builder list rows for primitive arrays', () => {
+    const Tags = ({ tags }: { tags: string[] }) => tags.join(',');
+    const local = createRegistry([
+      defineBlock({
+        type: 'Tags',
+        component: Tags,
+        schema: { tags: { kind: 'array', required: true, of: { kind: 'string' } } },
+      }),
+    ]);
+    const content = {
+      data: { blocks: [{ component: { name: 'Tags', options: { tags: [{ value: 'rock' }, { value: 'jazz' }] } } }] },
+    };
+
+    const { value } = builderContentToPageDoc(content, { registry: local });
+
+    expect(value.blocks).toEqual([{ type: 'Tags', props: { tags: ['rock', 'jazz'] } }]);
+  });
+});
+
+describe('registerBuilderComponents', () => {
+  test('derives inputs from block prop schemas', () => {
+    expect(toBuilderComponent(registry.get('CTA')!)).toEqual({
+      name: 'CTA',
+      friendlyName: 'Call to action',
+      description: undefined,
+      inputs: [
+        { name: 'label', type: 'string', required: true },
+        { name: 'href', type: 'string', required: true },
+        { name: 'variant', type: 'string', enum: ['primary', 'secondary'], defaultValue: 'primary' },
+      ],
+    });
+
+    expect(toBuilderComponent(registry.get('CardList')!).inputs).toEqual([
+      {
+        name: 'items',
+        type: 'list',
+        required: true,
+        defaultValue: [],
+        subFields: [
+          { name: 'title', type: 'string', required: true },
+          { name: 'price', type: 'number' },
+          { name: 'href', type: 'string' },
+        ],
+      },
+      { name: 'mode', type: 'string', enum: ['all', 'virtual'] },
+    ]);
+  });
+
+  test('registers every block in the registry', () => {
+    const register = jest.fn();
+
+    registerBuilderComponents(registry, register);
+
+    expect(register).toHaveBeenCalledTimes(registry.types().length);
+    expect(register).toHaveBeenCalledWith(
+      registry.get('Hero')!.component,
+      expect.objectContaining({ name: 'Hero', friendlyName: 'Hero' })
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { renderBlocks } from '../src/renderBlocks';
+import { validatePageDoc } from '../src/lib/validatePageDoc';
+import { builderContentToPageDoc } from '../src/lib/builderAdapter';
+import { formatIssue } from '../src/lib/propSchema';
+import type { AnyBlock } from '../src/registry';
+import type { Block } from '../src/types';
+
+const hero = (title: string): Block => ({ type: 'Hero', props: { title } });
+
+describe('container blocks', () => {
+  test('renders nested children recursively', () => {
+    render(
+      <>
+        {renderBlocks([
+          {
+            type: 'Section',
+            props: {
+              title: 'Featured',
+              children: [
+                { type: 'Grid', props: { columns: 2, children: [hero('One'), hero('Two')] } },
+                { type: 'Columns', props: { widths: [2, 1], children: [hero('Wide'), hero('Narrow')] } },
+              ],
+            },
+          },
+        ])}
+      </>
+    );
+
+    const section = screen.getByRole('region', { name: 'Featured' });
+    expect(within(section).getAllByRole('heading', { level: 1 }).map((h) => h.textContent)).toEqual([
+      'One',
+      'Two',
+      'Wide',
+      'Narrow',
+    ]);
+  });
+
+  test('renders the main section as a landmark', () => {
+    render(<>{renderBlocks([{ type: 'Section', props: { as: 'main', children: [hero('Inside')] } }])}</>);
+
+    expect(within(screen.getByRole('main')).getByText('Inside')).toBeInTheDocument();
+  });
+
+  test('shows unknown nested blocks without breaking siblings', () => {
+    const blocks: AnyBlock[] = [{ type: 'Grid', props: { children: [{ type: 'Nope', props: {} }, hero('Still here')] } }];
+
+    render(<>{renderBlocks(blocks)}</>);
+
+    expect(screen.getByRole('note')).toHaveTextContent('Unknown block: Nope');
+    expect(screen.getByText('Still here')).toBeInTheDocument();
+  });
+
+  test('tabs show one panel at a time and support arrow keys', () => {
+    render(
+      <>
+        {renderBlocks([
+          { type: 'Tabs', props: { labels: ['Music', 'Sports'], children: [hero('Concerts'), hero('Games')] } },
+        ])}
+      </>
+    );
+
+    const [music, sports] = screen.getAllByRole('tab');
+    expect(music).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getByRole('tabpanel')).toHaveTextContent('Concerts');
+
+    fireEvent.click(sports!);
+    expect(screen.getByRole('tabpanel')).toHaveTextContent('Games');
+
+    fireEvent.keyDown(sports!, { key: 'ArrowRight' });
+    expect(music).toHaveFocus();
+    expect(music).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getByText('Games').closest('[role="tabpanel"]')).not.toBeVisible();
+  });
+});
+
+describe('container validation and Builder children', () => {
+  test('validates nested blocks with full paths', () => {
+    const { value, issues } = validatePageDoc({
+      blocks: [
+        {
+          type: 'Section',
+          props: {
+            children: [
+              { type: 'CTA', props: { label: 'Go', href: '/go' } },
+              { type: 'CTA', props: { label: 'Broken' } },
+            ],
+          },
+        },
+        { type: 'Grid', props: {} },
+      ],
+    });
+
+    expect(issues.map(formatIssue)).toEqual([
+      'blocks[0].props.children[1].props.href: required',
+      'blocks[1].props.children: required',
+    ]);
+    expect(value.blocks).toEqual([
+      { type: 'Section', props: { children: [{ type: 'CTA', props: { label: 'Go', href: '/go' } }] } },
+    ]);
+  });
+
+  test('maps Builder element children into container blocks', () => {
+    const { value } = builderContentToPageDoc({
+      data: {
+        blocks: [
+          {
+            id: 'builder-1',
+            component: { name: 'Section', options: { title: 'Deals' } },
+            children: [{ id: 'builder-2', component: { name: 'Hero', options: { title: 'Nested' } } }],
+          },
+        ],
+      },
+    });
+
+    expect(value.blocks).toEqual([
+      {
+        id: 'builder-1',
+        type: 'Section',
+        props: { title: 'Deals', children: [{ id: 'builder-2', type: 'Hero', props: { title: 'Nested' } }] },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import { renderToString } from 'react-dom/server';
+import { draftMode } from 'next/headers';
+import SlugPage, { generateMetadata } from '../app/[...slug]/page';
+import { GET as enablePreview } from '../app/api/draft/route';
+import { GET as exitPreview } from '../app/api/draft/exit/route';
+
+// Unpublished pages need fixtures the content folder shouldn't carry
+jest.mock('../src/dataSources', () => {
+  const actual = jest.requireActual('../src/dataSources');
+  const { createInMemoryPageRepository } = jest.requireActual('../src/lib/pageRepository');
+  const hero = (title: string) => ({ type: 'Hero', props: { title } });
+  return {
+    ...actual,
+    pageRepository: createInMemoryPageRepository({
+      live: { pageTitle: 'Live', blocks: [hero('Live page')] },
+      draft: { pageTitle: 'Draft', status: 'draft', blocks: [hero('Draft page')] },
+      upcoming: { status: 'scheduled', publishAt: '2999-01-01T00:00:00Z', blocks: [hero('Upcoming page')] },
+      launched: { status: 'scheduled', publishAt: '2020-01-01T00:00:00Z', blocks: [hero('Launched page')] },
+      expired: { unpublishAt: '2020-01-01T00:00:00Z', blocks: [hero('Expired page')] },
+      // A draft saved over a live page
+      redesign: {
+        pageTitle: 'Redesign',
+        status: 'draft',
+        blocks: [hero('Redesigned page')],
+        revisions: [{ pageTitle: 'Current', blocks: [hero('Current page')] }],
+      },
+    }),
+  };
+});
+
+const props = (slug: string) => ({ params: Promise.resolve({ slug: [slug] }), searchParams: Promise.resolve({}) });
+const html = async (slug: string) => renderToString(await SlugPage(props(slug)));
+const NOT_FOUND = { digest: 'NEXT_HTTP_ERROR_FALLBACK;404' };
+
+const request = (query: string) => new Request(`http://localhost/api/draft${query}`);
+const previewEnabled = async () => (await draftMode()).isEnabled;
+
+beforeEach(() => {
+  process.env.PREVIEW_SECRET = 'let-me-in';
+});
+
+afterEach(async () => {
+  delete process.env.PREVIEW_SECRET;
+  (await draftMode()).disable();
+});
+
+describe('published routes', () => {
+  test('serve published and launched pages without a Preview banner', async () => {
+    expect(await html('live')).toContain('Live page');
+    expect(await html('launched')).toContain('Launched page');
+    expect(await html('live')).not.toContain('aria-label="Preview"');
+  });
+
+  test('serve the published version of a page with a draft saved over it', async () => {
+    const redesign = await html('redesign');
+
+    expect(redesign).toContain('Current page');
+    expect(redesign).not.toContain('Redesigned page');
+    await expect(generateMetadata(props('redesign'))).resolves.toEqual(expect.objectContaining({ title: 'Current' }));
+  });
+
+  test.each(['draft', 'upcoming', 'expired'])('ignore the %s page', async (slug) => {
+    await expect(SlugPage(props(slug))).rejects.toMatchObject(NOT_FOUND);
+    await expect(generateMetadata(props(slug))).rejects.toMatchObject(NOT_FOUND);
+  });
+});
+
+describe('draft-mode preview', () => {
+  test('needs the secret token', async () => {
+    for (const query of ['?slug=draft', '?secret=wrong&slug=draft', '?secret=let-me-i&slug=draft']) {
+      expect((await enablePreview(request(query))).status).toBe(401);
+    }
+    delete process.env.PREVIEW_SECRET;
+    expect((await enablePreview(request('?secret=&slug=draft'))).status).toBe(401);
+    expect(await previewEnabled()).toBe(false);
+  });
+
+  test('only starts for pages that exist', async () => {
+    expect((await enablePreview(request('?secret=let-me-in&slug=missing'))).status).toBe(404);
+    expect((await enablePreview(request('?secret=let-me-in&slug=../secrets'))).status).toBe(404);
+    expect(await previewEnabled()).toBe(false);
+  });
+
+  test('renders unpublished pages under a Preview banner', async () => {
+    const response = await enablePreview(request('?secret=let-me-in&slug=Draft'));
+    expect(response.status).toBe(307);
+    expect(response.headers.get('Location')).toBe('/draft');
+    expect(await previewEnabled()).toBe(true);
+
+    const draft = await html('draft');
+    expect(draft).toContain('Draft page');
+    expect(draft).toMatch(/<aside aria-label="Preview"[^>]*><strong[^>]*>Preview<\/strong><span>Draft<\/span>/);
+    expect(draft).toContain('href="/api/draft/exit?slug=draft"');
+    expect(await html('upcoming')).toContain('Scheduled for 1 Jan 2999, 00:00 UTC');
+    expect(await html('expired')).toContain('Unpublished since 1 Jan 2020, 00:00 UTC');
+    expect(await html('live')).toContain('<span>Published</span>');
+    expect(await html('redesign')).toContain('Redesigned page');
+
+    await expect(generateMetadata(props('draft'))).resolves.toEqual(
+      expect.objectContaining({ title: 'Draft', robots: { index: false, follow: false } })
+    );
+  });
+
+  test('exits back to the published page', async () => {
+    (await draftMode()).enable();
+
+    const response = await exitPreview(new Request('http://localhost/api/draft/exit?slug=draft'));
+    expect(response.status).toBe(307);
+    expect(response.headers.get('Location')).toBe('/draft');
+    expect(await previewEnabled()).toBe(false);
+    await expect(SlugPage(props('draft'))).rejects.toMatchObject(NOT_FOUND);
+
+    expect((await exitPreview(new Request('http://localhost/api/draft/exit'))).headers.get('Location')).toBe('/');
+  });
+});
@@ -0,0 +1,49 @@
+import { convertPrice, createStaticRateProvider, defaultRateProvider, resolveDisplayCurrency } from '../src/lib/exchangeRates';
+
+describe('createStaticRateProvider', () => {
+  const provider = createStaticRateProvider({ base: 'USD', rates: { EUR: 0.5, GBP: 0.25 } });
+
+  test('converts from and to the base currency', () => {
+    expect(provider.getRate('USD', 'EUR')).toBe(0.5);
+    expect(provider.getRate('EUR', 'USD')).toBe(2);
+  });
+
+  test('converts between two non-base currencies through the base', () => {
+    expect(provider.getRate('GBP', 'EUR')).toBe(2);
+    expect(convertPrice(20, 'GBP', 'EUR', provider)).toBe(40);
+  });
+
+  test('returns undefined for currencies missing from the table', () => {
+    const partial = createStaticRateProvider({ base: 'USD', rates: { EUR: 0.5 } });
+
+    expect(partial.getRate('GBP', 'USD')).toBeUndefined();
+    expect(convertPrice(10, 'GBP', 'USD', partial)).toBeUndefined();
+    expect(partial.getRate('GBP', 'GBP')).toBe(1);
+  });
+
+  test('lists the base currency along with the table', () => {
+    expect(provider.currencies()).toEqual(['USD', 'EUR', 'GBP']);
+  });
+
+  test('ships default rates for the mock ticket currencies', () => {
+    expect(defaultRateProvider.currencies()).toEqual(expect.arrayContaining(['USD', 'EUR', 'GBP', 'CAD', 'AUD']));
+  });
+
+  test('converts between currencies with different minor units', () => {
+    expect(convertPrice(1500, 'JPY', 'USD')).toBeCloseTo(10);
+  });
+});
+
+describe('resolveDisplayCurrency', () => {
+  const provider = createStaticRateProvider({ base: 'USD', rates: { EUR: 0.5, GBP: 0.25 } });
+
+  test('uses the requested currency when it has a rate', () => {
+    expect(resolveDisplayCurrency('EUR', 'GBP', provider)).toBe('EUR');
+  });
+
+  test('falls back to the list currency, then the first currency with a rate', () => {
+    expect(resolveDisplayCurrency('KRW', 'GBP', provider)).toBe('GBP');
+    expect(resolveDisplayCurrency(undefined, 'GBP', provider)).toBe('GBP');
+    expect(resolveDisplayCurrency('KRW', 'KWD', provider)).toBe('USD');
+  });
+});
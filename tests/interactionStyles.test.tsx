@@ -0,0 +1,70 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CTA from '../src/components/CTA';
+import SearchBar from '../src/components/SearchBar';
+import TicketList from '../src/components/TicketList';
+import type { Ticket } from '../src/types';
+
+// Hover, focus and pressed states are CSS rules, so the tests check the
+// components carry the CSS module classes and leave inline styles alone
+
+const tickets: Ticket[] = [
+  { id: '1', title: 'Concert A', price: 50, currency: 'USD' },
+  { id: '2', title: 'Concert B', price: 75, currency: 'USD' },
+];
+
+describe('interaction states', () => {
+  test('CTA hover, focus and leave leave its inline styles alone', () => {
+    render(<CTA label="Browse" href="/events" variant="secondary" />);
+    const link = screen.getByRole('link', { name: 'Browse' });
+
+    fireEvent.mouseEnter(link);
+    fireEvent.focus(link);
+    fireEvent.mouseLeave(link);
+    fireEvent.blur(link);
+
+    expect(link).not.toHaveAttribute('style');
+    expect(link).toHaveClass('cta', 'secondary');
+  });
+
+  test('CTA renders the primary variant by default', () => {
+    render(<CTA label="Buy" href="/buy" />);
+
+    expect(screen.getByRole('link', { name: 'Buy' })).toHaveClass('cta', 'primary');
+  });
+
+  test('SearchBar focus and the clear button are styled by class', () => {
+    render(<SearchBar value="jazz" />);
+    const input = screen.getByRole('textbox');
+    const before = input.getAttribute('style');
+
+    fireEvent.focus(input);
+    fireEvent.blur(input);
+    expect(input.getAttribute('style')).toBe(before);
+    expect(input).toHaveClass('input');
+
+    const clear = screen.getByRole('button', { name: 'Clear search' });
+    fireEvent.mouseEnter(clear);
+    fireEvent.focus(clear);
+    expect(clear).not.toHaveAttribute('style');
+    expect(clear).toHaveClass('clear');
+  });
+
+  test('ticket rows lift through CSS instead of mouse handlers', () => {
+    render(<TicketList tickets={tickets} />);
+    const row = screen.getByText('Concert A').closest('li')!;
+    const before = row.getAttribute('style');
+
+    fireEvent.mouseEnter(row);
+    fireEvent.focus(screen.getByRole('link', { name: 'Concert A' }));
+
+    expect(row.getAttribute('style')).toBe(before);
+    expect(row).toHaveClass('card');
+  });
+
+  test('virtual ticket rows use the same card class', () => {
+    render(<TicketList tickets={tickets} mode="virtual" />);
+
+    expect(screen.getByText('Concert A').closest('.card')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  blockAt,
+  collectBlockIds,
+  defaultValue,
+  fieldLabel,
+  findBlockPath,
+  insertBlockAt,
+  moveBlockAt,
+  newBlock,
+  nextBlockId,
+  removeBlockAt,
+  updateBlockAt,
+} from '../src/lib/pageEditor';
+import { createRegistry, defineBlock, registry } from '../src/registry';
+import type { Block } from '../src/types';
+
+const blocks: Block[] = [
+  { id: 'intro', type: 'Hero', props: { title: 'Welcome' } },
+  {
+    id: 'main',
+    type: 'Section',
+    props: {
+      children: [
+        { id: 'buy', type: 'CTA', props: { label: 'Buy', href: '/buy' } },
+        { id: 'tabs', type: 'Tabs', props: { labels: ['A'], children: [{ id: 'inner', type: 'Hero', props: { title: 'Inner' } }] } },
+      ],
+    },
+  },
+  { id: 'end', type: 'Footer', props: { title: 'Fine print' } },
+];
+
+const ids = (list: Block[]) => list.map((block) => block.id);
+const childrenOf = (block: Block | undefined) => (block?.props as { children: Block[] }).children;
+
+describe('page editor helpers', () => {
+  test('finds blocks by id at any depth', () => {
+    expect(findBlockPath(blocks, 'end')).toEqual([2]);
+    expect(findBlockPath(blocks, 'buy')).toEqual([1, 'children', 0]);
+    expect(findBlockPath(blocks, 'inner')).toEqual([1, 'children', 1, 'children', 0]);
+    expect(findBlockPath(blocks, 'missing')).toBeUndefined();
+
+    expect(blockAt(blocks, [1, 'children', 1, 'children', 0])?.props).toEqual({ title: 'Inner' });
+    expect(blockAt(blocks, [1, 'children', 5])).toBeUndefined();
+  });
+
+  test('updates, inserts and removes nested blocks without touching the input', () => {
+    const updated = updateBlockAt(blocks, [1, 'children', 0], (block) => ({ ...block, props: { label: 'Now', href: '/' } }) as Block);
+    expect(blockAt(updated, [1, 'children', 0])?.props).toEqual({ label: 'Now', href: '/' });
+    expect(updated[0]).toBe(blocks[0]);
+    expect(blockAt(blocks, [1, 'children', 0])?.props).toEqual({ label: 'Buy', href: '/buy' });
+
+    const hero: Block = { id: 'new', type: 'Hero', props: { title: 'New' } };
+    expect(ids(insertBlockAt(blocks, [], hero))).toEqual(['intro', 'main', 'end', 'new']);
+    expect(ids(insertBlockAt(blocks, [], hero, 0))).toEqual(['new', 'intro', 'main', 'end']);
+    expect(ids(childrenOf(insertBlockAt(blocks, [1, 'children'], hero, 1)[1]))).toEqual(['buy', 'new', 'tabs']);
+
+    expect(ids(removeBlockAt(blocks, [0]))).toEqual(['main', 'end']);
+    expect(ids(childrenOf(removeBlockAt(blocks, [1, 'children', 0])[1]))).toEqual(['tabs']);
+    expect(ids(blocks)).toEqual(['intro', 'main', 'end']);
+  });
+
+  test('moves blocks within their list and ignores moves past either end', () => {
+    expect(ids(moveBlockAt(blocks, [0], 1))).toEqual(['main', 'intro', 'end']);
+    expect(ids(moveBlockAt(blocks, [2], -1))).toEqual(['intro', 'end', 'main']);
+    expect(ids(moveBlockAt(blocks, [0], -1))).toEqual(['intro', 'main', 'end']);
+    expect(ids(moveBlockAt(blocks, [2], 1))).toEqual(['intro', 'main', 'end']);
+    expect(ids(childrenOf(moveBlockAt(blocks, [1, 'children', 1], -1)[1]))).toEqual(['tabs', 'buy']);
+  });
+
+  test('numbers new block ids past the ones in use', () => {
+    const taken = collectBlockIds(blocks);
+    expect([...taken].sort()).toEqual(['buy', 'end', 'inner', 'intro', 'main', 'tabs']);
+
+    expect(nextBlockId('Hero', taken)).toBe('hero-1');
+    expect(nextBlockId('Hero', new Set(['hero-1', 'hero-2']))).toBe('hero-3');
+  });
+
+  test('starts new blocks from required defaults and the definition defaults', () => {
+    expect(newBlock(registry.get('Hero')!, 'hero-1')).toEqual({ id: 'hero-1', type: 'Hero', props: { title: '' } });
+    expect(newBlock(registry.get('CTA')!, 'cta-1')).toEqual({ id: 'cta-1', type: 'CTA', props: { label: '', href: '', variant: 'primary' } });
+    expect(newBlock(registry.get('Tabs')!, 'tabs-1')).toEqual({ id: 'tabs-1', type: 'Tabs', props: { labels: [], children: [] } });
+
+    const local = createRegistry([
+      defineBlock<'Badge', { text: string; tone?: string; size: string; count?: number }>({
+        type: 'Badge',
+        component: () => null,
+        defaultProps: { tone: 'info' },
+        schema: {
+          text: { kind: 'string', required: true },
+          tone: { kind: 'string', enum: ['info', 'warning'] },
+          size: { kind: 'string', required: true, enum: ['sm', 'lg'] },
+          count: { kind: 'number' },
+        },
+      }),
+    ]);
+    expect(newBlock(local.get('Badge')!, 'badge-1').props).toEqual({ text: '', size: 'sm', tone: 'info' });
+  });
+
+  test('derives default values and labels from schemas', () => {
+    expect(defaultValue({ kind: 'number' })).toBe(0);
+    expect(defaultValue({ kind: 'boolean' })).toBe(false);
+    expect(defaultValue({ kind: 'array', of: { kind: 'string' } })).toEqual([]);
+    expect(
+      defaultValue({ kind: 'object', fields: { title: { kind: 'string', required: true }, price: { kind: 'number' } } })
+    ).toEqual({ title: '' });
+
+    expect(fieldLabel('title')).toBe('Title');
+    expect(fieldLabel('minColumnWidth')).toBe('Min column width');
+    expect(fieldLabel('og_image')).toBe('Og image');
+  });
+});
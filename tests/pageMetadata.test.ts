@@ -0,0 +1,48 @@
+import { pageMetadata } from '../src/lib/pageMetadata';
+
+describe('pageMetadata', () => {
+  test('maps every seo field to Next metadata', () => {
+    expect(
+      pageMetadata({
+        pageTitle: 'Concert Deals',
+        seo: {
+          title: 'Cheap Concert Tickets',
+          description: 'Save up to 40%',
+          canonical: '/deals',
+          ogImage: '/og/deals.png',
+          noindex: true,
+        },
+      })
+    ).toEqual({
+      title: 'Cheap Concert Tickets',
+      description: 'Save up to 40%',
+      alternates: { canonical: '/deals' },
+      openGraph: {
+        type: 'website',
+        title: 'Cheap Concert Tickets',
+        description: 'Save up to 40%',
+        images: ['/og/deals.png'],
+      },
+      twitter: {
+        card: 'summary_large_image',
+        title: 'Cheap Concert Tickets',
+        description: 'Save up to 40%',
+        images: ['/og/deals.png'],
+      },
+      robots: { index: false, follow: true },
+    });
+  });
+
+  test('falls back to pageTitle', () => {
+    expect(pageMetadata({ pageTitle: 'Concert Deals' })).toEqual({
+      title: 'Concert Deals',
+      openGraph: { type: 'website', title: 'Concert Deals' },
+      twitter: { card: 'summary', title: 'Concert Deals' },
+    });
+  });
+
+  test('leaves everything to the layout when the doc sets nothing', () => {
+    expect(pageMetadata({})).toEqual({});
+    expect(pageMetadata({ seo: { noindex: false } })).toEqual({});
+  });
+});
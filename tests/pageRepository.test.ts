@@ -0,0 +1,164 @@
+/**
+ * @jest-environment node
+ */
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createInMemoryPageRepository, slugFromSegments } from '../src/lib/pageRepository';
+import { createJsonFilePageRepository } from '../src/lib/jsonFilePageRepository';
+import { PageDocValidationError } from '../src/lib/validatePageDoc';
+
+const aboutPage = {
+  pageTitle: 'About',
+  blocks: [
+    { type: 'Hero', props: { title: 'About us' } },
+    { type: 'Marquee', props: {} },
+  ],
+};
+
+const clock = new Date('2025-06-01T12:00:00Z');
+
+describe('page repository', () => {
+  test('joins route segments into a slug', () => {
+    expect(slugFromSegments(['events'])).toBe('events');
+    expect(slugFromSegments(['Events', 'summer-2025'])).toBe('events/summer-2025');
+  });
+
+  test('rejects segments that cannot name a page', () => {
+    expect(slugFromSegments([])).toBeUndefined();
+    expect(slugFromSegments(['..', 'secrets'])).toBeUndefined();
+    expect(slugFromSegments(['events.json'])).toBeUndefined();
+    expect(slugFromSegments(['a/b'])).toBeUndefined();
+    expect(slugFromSegments(['%2e%2e'])).toBeUndefined();
+  });
+
+  test('in-memory repository validates documents and drops unknown blocks', async () => {
+    const repository = createInMemoryPageRepository({ about: aboutPage });
+
+    await expect(repository.getPage('about')).resolves.toEqual({
+      pageTitle: 'About',
+      blocks: [{ type: 'Hero', props: { title: 'About us' } }],
+    });
+    await expect(repository.getPage('missing')).resolves.toBeUndefined();
+    await expect(repository.getPage('toString')).resolves.toBeUndefined();
+  });
+
+  test('JSON file repository reads <slug>.json on each request', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'pages-'));
+    try {
+      await mkdir(path.join(dir, 'events'));
+      await writeFile(path.join(dir, 'about.json'), JSON.stringify(aboutPage));
+      await writeFile(path.join(dir, 'events', 'summer.json'), JSON.stringify({ blocks: [] }));
+      const repository = createJsonFilePageRepository(dir);
+
+      expect((await repository.getPage('about'))?.pageTitle).toBe('About');
+      expect(await repository.getPage('events/summer')).toEqual({ blocks: [] });
+      expect(await repository.getPage('contact')).toBeUndefined();
+
+      await writeFile(path.join(dir, 'about.json'), JSON.stringify({ ...aboutPage, pageTitle: 'About Us' }));
+      expect((await repository.getPage('about'))?.pageTitle).toBe('About Us');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('JSON file repository reports malformed files instead of a missing page', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'pages-'));
+    try {
+      await writeFile(path.join(dir, 'broken.json'), '{ "blocks": [');
+
+      await expect(createJsonFilePageRepository(dir).getPage('broken')).rejects.toThrow(SyntaxError);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('saves valid documents and lists slugs in order', async () => {
+    const repository = createInMemoryPageRepository({ 'events/summer': { blocks: [] } }, { now: () => clock });
+    const doc = { pageTitle: 'About', blocks: [{ id: 'hero-1', type: 'Hero', props: { title: 'About us' } }] };
+    const saved = { ...doc, revision: 1, savedAt: '2025-06-01T12:00:00.000Z' };
+
+    await expect(repository.savePage('about', doc)).resolves.toEqual(saved);
+    await expect(repository.getPage('about')).resolves.toEqual(saved);
+    await expect(repository.listPages()).resolves.toEqual(['about', 'events/summer']);
+  });
+
+  test('stores generated block ids with the page', async () => {
+    const repository = createInMemoryPageRepository({}, { now: () => clock });
+    const doc = { blocks: [{ type: 'Section', props: { children: [{ type: 'Hero', props: { title: 'Inside' } }] } }] };
+
+    const saved = await repository.savePage('about', doc);
+    const [section] = saved.blocks;
+    expect(section?.id).toMatch(/^section-/);
+    expect(section?.type === 'Section' && section.props.children[0]?.id).toMatch(/^hero-/);
+
+    // Ids already stored are kept when the page is edited and saved again
+    const edited = await repository.savePage('about', { ...saved, pageTitle: 'Edited' });
+    expect(edited.blocks).toEqual(saved.blocks);
+  });
+
+  test('keeps earlier saves as revisions, newest first', async () => {
+    let now = new Date('2025-06-01T12:00:00Z');
+    const repository = createInMemoryPageRepository(
+      { about: { pageTitle: 'Legacy', blocks: [] } },
+      { now: () => now, maxRevisions: 2 }
+    );
+
+    const first = await repository.savePage('about', { pageTitle: 'One', status: 'draft', blocks: [] });
+    expect(first).toEqual({
+      pageTitle: 'One',
+      status: 'draft',
+      revision: 1,
+      savedAt: '2025-06-01T12:00:00.000Z',
+      revisions: [{ pageTitle: 'Legacy', blocks: [] }],
+      blocks: [],
+    });
+
+    now = new Date('2025-06-02T12:00:00Z');
+    // History sent with the doc is ignored; the repository keeps its own
+    const second = await repository.savePage('about', { ...first, pageTitle: 'Two', revisions: [{ blocks: [] }] });
+    expect(second.revision).toBe(2);
+    expect(second.revisions).toEqual([
+      { pageTitle: 'One', status: 'draft', revision: 1, savedAt: '2025-06-01T12:00:00.000Z', blocks: [] },
+      { pageTitle: 'Legacy', blocks: [] },
+    ]);
+
+    const third = await repository.savePage('about', { pageTitle: 'Three', blocks: [] });
+    expect(third.revision).toBe(3);
+    expect(third.revisions!.map((revision) => revision.pageTitle)).toEqual(['Two', 'One']);
+    await expect(repository.getPage('about')).resolves.toEqual(third);
+  });
+
+  test('rejects invalid documents and slugs on save without writing', async () => {
+    const repository = createInMemoryPageRepository();
+
+    await expect(repository.savePage('about', aboutPage)).rejects.toThrow(PageDocValidationError);
+    await expect(repository.savePage('about', aboutPage)).rejects.toThrow('blocks[1].type: unknown block type "Marquee"');
+    await expect(repository.savePage('../about', { blocks: [] })).rejects.toThrow('Invalid page slug "../about"');
+    await expect(repository.savePage('About', { blocks: [] })).rejects.toThrow('Invalid page slug "About"');
+    await expect(repository.listPages()).resolves.toEqual([]);
+  });
+
+  test('JSON file repository writes <slug>.json and lists nested pages', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'pages-'));
+    try {
+      const repository = createJsonFilePageRepository(dir, { now: () => clock });
+      await expect(repository.listPages()).resolves.toEqual([]);
+
+      await repository.savePage('events/summer', { pageTitle: 'Summer', blocks: [] });
+      await repository.savePage('about', { blocks: [] });
+      await writeFile(path.join(dir, 'notes.txt'), 'not a page');
+
+      const saved = { pageTitle: 'Summer', blocks: [], revision: 1, savedAt: '2025-06-01T12:00:00.000Z' };
+      expect(await readFile(path.join(dir, 'events', 'summer.json'), 'utf8')).toBe(`${JSON.stringify(saved, null, 2)}\n`);
+      await expect(repository.getPage('events/summer')).resolves.toEqual(saved);
+      await expect(repository.listPages()).resolves.toEqual(['about', 'events/summer']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('JSON file repository has no pages when the directory is missing', async () => {
+    await expect(createJsonFilePageRepository(path.join(tmpdir(), 'no-such-pages-dir')).listPages()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { renderToString } from 'react-dom/server';
+import Page from '../app/page';
+import { renderPageDoc } from '../src/renderPageDoc';
+import type { Currency, PageDoc } from '../src/types';
+
+// renderToString runs no effects, so this is the HTML the browser (or a crawler) gets before hydration
+async function serverHtml(searchParams: Record<string, string | string[]>) {
+  return renderToString(await Page({ searchParams: Promise.resolve(searchParams) }));
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]+>/g, '').replace(/&#x27;/g, "'").replace(/&amp;/g, '&');
+
+function structuredEvents(html: string): Array<{ name: string }> {
+  const script = /<script type="application\/ld\+json">(.*?)<\/script>/.exec(html);
+  return script ? JSON.parse(script[1]!)['@graph'] : [];
+}
+
+function ticketTitles(html: string): string[] {
+  return Array.from(html.matchAll(/<li[^>]*>.*?<strong[^>]*>(.*?)<\/strong>/g), (match) => stripTags(match[1]!));
+}
+
+describe('server-rendered ticket list', () => {
+  test('shows every ticket without query params', async () => {
+    const html = await serverHtml({});
+
+    expect(html).toMatch(/Page 1 of \d+ \(\d+ tickets\)/);
+    expect(ticketTitles(html)).toHaveLength(20);
+  });
+
+  test('searches, sorts and highlights before hydration', async () => {
+    const html = await serverHtml({ search: 'tour', sort: 'title-asc' });
+    const titles = ticketTitles(html);
+
+    expect(titles.length).toBeGreaterThan(0);
+    expect(titles.every((title) => /tour/i.test(title))).toBe(true);
+    expect(titles).toEqual([...titles].sort((a, b) => a.localeCompare(b)));
+    expect(html).toMatch(/<mark[^>]*>Tour<\/mark>/);
+    expect(html).toMatch(/<input[^>]*id="ticket-search"[^>]*value="tour"/);
+    expect(html).toMatch(/<option value="title-asc" selected="">/);
+  });
+
+  test('applies facet filters', async () => {
+    const html = await serverHtml({ category: 'Comedy' });
+
+    expect(html).toMatch(/<input type="checkbox" checked=""[^>]*\/>Comedy/);
+    expect(ticketTitles(html)).toContain('Trevor Noah Off the Record');
+    expect(ticketTitles(html)).not.toContain('Norah Jones Visions Tour');
+  });
+
+  test('applies display currency and page', async () => {
+    const all = await serverHtml({});
+    const count = Number(/\((\d+) tickets\)/.exec(all)![1]);
+
+    const html = await serverHtml({ display: 'EUR', page: '2' });
+
+    expect(html).toContain(`Page 2 of ${Math.ceil(count / 20)} (${count} tickets)`);
+    expect(html).toMatch(/<option value="EUR" selected="">/);
+  });
+
+  test('describes the listed tickets as JSON-LD events', async () => {
+    const html = await serverHtml({ search: 'tour', sort: 'title-asc' });
+
+    expect(structuredEvents(html).map((event) => event.name)).toEqual(ticketTitles(html));
+    expect(structuredEvents(html)[0]).toEqual(
+      expect.objectContaining({ '@type': 'Event', offers: expect.objectContaining({ '@type': 'Offer' }) })
+    );
+  });
+
+  test('ignores params that do not parse', async () => {
+    const html = await serverHtml({ sort: 'cheapest', page: 'last', display: 'XYZ', search: ['rock', 'pop'] });
+
+    expect(html).toMatch(/<option value="price-asc" selected="">/);
+    expect(html).toMatch(/Page 1 of/);
+    expect(html).toMatch(/value="rock"/);
+  });
+
+  // UrlParamSync re-renders the page on every settled search; a new id would remount the list
+  test('keeps the TicketList block id whatever the query string', async () => {
+    const listId = (html: string) => /data-block-id="(ticketlist-[^"]+)"/.exec(html)?.[1];
+    const id = listId(await serverHtml({}));
+
+    expect(id).toBeDefined();
+    expect(listId(await serverHtml({ search: 'jazz' }))).toBe(id);
+    expect(listId(await serverHtml({ sort: 'price-desc', display: 'EUR' }))).toBe(id);
+  });
+});
+
+describe('server-rendered block errors', () => {
+  test('a block that throws on the server leaves the rest of the page', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const doc: PageDoc = {
+      blocks: [
+        { type: 'Hero', props: { title: 'Before' } },
+        // Intl.NumberFormat throws for a currency code that isn't one
+        { type: 'TicketList', props: { tickets: [{ id: '1', title: 'Broken', price: 5, currency: 'DOLLARS' as Currency }] } },
+        { type: 'Hero', props: { title: 'After' } },
+      ],
+    };
+
+    try {
+      const html = renderToString(await renderPageDoc(doc, {}));
+
+      expect(html).toContain('Before');
+      expect(html).toContain('After');
+      expect(html).not.toContain('Broken');
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { describePageStatus, isPagePublished, isTimestamp, publishedVersion } from '../src/lib/publishing';
+
+const now = new Date('2025-07-01T12:00:00Z');
+const past = '2025-06-01T00:00:00Z';
+const future = '2025-08-01T00:00:00Z';
+
+describe('publishing', () => {
+  test.each([
+    ['no status', {}, true],
+    ['published', { status: 'published' as const }, true],
+    ['draft', { status: 'draft' as const }, false],
+    ['draft with a past publishAt', { status: 'draft' as const, publishAt: past }, false],
+    ['scheduled for later', { status: 'scheduled' as const, publishAt: future }, false],
+    ['scheduled, time passed', { status: 'scheduled' as const, publishAt: past }, true],
+    ['scheduled, no publishAt', { status: 'scheduled' as const }, false],
+    ['scheduled, unreadable publishAt', { status: 'scheduled' as const, publishAt: 'soon' }, false],
+    ['published until later', { status: 'published' as const, unpublishAt: future }, true],
+    ['unpublished', { unpublishAt: past }, false],
+    ['scheduled and already unpublished', { status: 'scheduled' as const, publishAt: past, unpublishAt: '2025-06-15T00:00:00Z' }, false],
+  ])('%s: live is %s', (_label, doc, expected) => {
+    expect(isPagePublished(doc, now)).toBe(expected);
+  });
+
+  test('goes live exactly at publishAt and comes down exactly at unpublishAt', () => {
+    const doc = { status: 'scheduled' as const, publishAt: '2025-07-01T12:00:00Z', unpublishAt: '2025-07-02T12:00:00Z' };
+
+    expect(isPagePublished(doc, new Date('2025-07-01T11:59:59Z'))).toBe(false);
+    expect(isPagePublished(doc, now)).toBe(true);
+    expect(isPagePublished(doc, new Date('2025-07-02T12:00:00Z'))).toBe(false);
+  });
+
+  test('serves the newest published revision while a newer version is unpublished', () => {
+    const live = { pageTitle: 'Live', blocks: [] };
+    const older = { pageTitle: 'Older', blocks: [] };
+
+    expect(publishedVersion({ ...live, revisions: [older] }, now)).toEqual({ ...live, revisions: [older] });
+    expect(publishedVersion({ pageTitle: 'Draft', status: 'draft', blocks: [], revisions: [live, older] }, now)).toBe(live);
+    expect(
+      publishedVersion({ status: 'scheduled', publishAt: future, blocks: [], revisions: [{ status: 'draft', blocks: [] }, live] }, now)
+    ).toBe(live);
+    expect(publishedVersion({ status: 'draft', blocks: [] }, now)).toBeUndefined();
+  });
+
+  test('keeps a page that came down down, whatever older revisions hold', () => {
+    const retired = { unpublishAt: past, blocks: [] };
+
+    expect(publishedVersion({ ...retired, revisions: [{ blocks: [] }] }, now)).toBeUndefined();
+    expect(publishedVersion({ status: 'draft', blocks: [], revisions: [retired, { blocks: [] }] }, now)).toBeUndefined();
+  });
+
+  test('describes the status for the preview banner', () => {
+    expect(describePageStatus({ status: 'draft' }, now)).toBe('Draft');
+    expect(describePageStatus({ status: 'scheduled', publishAt: future }, now)).toBe('Scheduled for 1 Aug 2025, 00:00 UTC');
+    expect(describePageStatus({ status: 'scheduled' }, now)).toBe('Scheduled, without a publish time');
+    expect(describePageStatus({ status: 'scheduled', publishAt: past }, now)).toBe('Published');
+    expect(describePageStatus({ unpublishAt: future }, now)).toBe('Published until 1 Aug 2025, 00:00 UTC');
+    expect(describePageStatus({ unpublishAt: past }, now)).toBe('Unpublished since 1 Jun 2025, 00:00 UTC');
+  });
+
+  test('accepts ISO 8601 date-times with a UTC offset only', () => {
+    expect(['2025-07-01T09:00Z', '2025-07-01T09:00:00.000Z', '2025-07-01T09:00:00+02:00'].every(isTimestamp)).toBe(true);
+    // Without an offset the instant would depend on the server's time zone
+    expect(['2025-07-01', '2025-07-01T09:00', '2025-07-01T09:00:00'].some(isTimestamp)).toBe(false);
+    expect(['July 1 2025', '2025-13-01T00:00Z', '1751360400000', ''].some(isTimestamp)).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { createRegistry, defineBlock, registry, builtinBlocks } from '../src/registry';
+import type { AnyBlock, RegistryBlock } from '../src/registry';
+import { renderBlocks } from '../src/renderBlocks';
+import { validateBlocks } from '../src/lib/validatePageDoc';
+
+function Promo({ headline, tone }: { headline: string; tone?: 'loud' | 'quiet' }) {
+  return <p data-tone={tone}>Promo:{headline}</p>;
+}
+
+const promoBlock = defineBlock({
+  type: 'Promo',
+  component: Promo,
+  defaultProps: { tone: 'quiet' },
+  schema: {
+    headline: { kind: 'string', required: true },
+    tone: { kind: 'string', enum: ['loud', 'quiet'] },
+  },
+  meta: { label: 'Promo', category: 'Marketing' },
+});
+
+describe('createRegistry', () => {
+  test('default registry exposes the built-in blocks', () => {
+    expect(registry.types()).toEqual([
+      'Hero',
+      'CardList',
+      'CTA',
+      'SearchBar',
+      'TicketList',
+      'PricePanel',
+      'Footer',
+      'Section',
+      'Grid',
+      'Columns',
+      'Tabs',
+    ]);
+    expect(registry.get('CTA')?.meta?.label).toBe('Call to action');
+  });
+
+  test('registers and unregisters blocks on an isolated instance', () => {
+    const local = createRegistry().registerBlock(promoBlock);
+
+    expect(local.has('Promo')).toBe(true);
+    expect(registry.has('Promo')).toBe(false);
+
+    const emptied = local.unregisterBlock('Promo');
+    expect(emptied.has('Promo')).toBe(false);
+    expect(emptied.types()).toEqual([]);
+  });
+
+  test('returns a new registry instead of changing the existing one', () => {
+    const base = createRegistry(builtinBlocks);
+    const extended = base.registerBlock(promoBlock);
+
+    expect(extended.has('Promo')).toBe(true);
+    expect(base.has('Promo')).toBe(false);
+    expect(extended.unregisterBlock('Hero').has('Hero')).toBe(false);
+    expect(extended.has('Hero')).toBe(true);
+  });
+
+  test('rejects duplicate registrations', () => {
+    const local = createRegistry([promoBlock]);
+
+    expect(() => local.registerBlock(promoBlock)).toThrow('Block "Promo" is already registered');
+    expect(() => createRegistry([promoBlock, promoBlock])).toThrow('Block "Promo" is already registered');
+  });
+
+  test('extends the block type by inference', () => {
+    const local = createRegistry(builtinBlocks).registerBlock(promoBlock);
+    const blocks: Array<RegistryBlock<typeof local>> = [
+      { type: 'Promo', props: { headline: 'Two for one' } },
+      { type: 'Hero', props: { title: 'Hi' } },
+    ];
+
+    render(<>{renderBlocks(blocks, { registry: local })}</>);
+
+    expect(screen.getByText('Promo:Two for one')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Hi' })).toBeInTheDocument();
+  });
+
+  test('renderBlocks renders through the given registry with default props', () => {
+    const local = createRegistry([promoBlock]);
+
+    render(<>{renderBlocks([{ type: 'Promo', props: { headline: 'Half price' } }], { registry: local })}</>);
+
+    expect(screen.getByText('Promo:Half price')).toHaveAttribute('data-tone', 'quiet');
+  });
+
+  test('renderBlocks treats blocks missing from the registry as unknown', () => {
+    const local = createRegistry([promoBlock]);
+
+    const blocks: AnyBlock[] = [{ type: 'Hero', props: { title: 'T' } }];
+
+    render(<>{renderBlocks(blocks, { registry: local })}</>);
+
+    expect(screen.getByRole('note')).toHaveTextContent('Unknown block: Hero');
+  });
+
+  test('validation uses the schemas of the given registry', () => {
+    const local = createRegistry([promoBlock]);
+
+    const { value, issues } = validateBlocks(
+      [{ type: 'Promo', props: { headline: 'Yes' } }, { type: 'Promo', props: {} }],
+      { registry: local }
+    );
+
+    expect(value).toEqual([{ type: 'Promo', props: { headline: 'Yes' } }]);
+    expect(issues).toEqual([{ path: 'blocks[1].props.headline', message: 'required' }]);
+  });
+});
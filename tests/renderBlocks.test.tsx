@@ -1,6 +1,10 @@
+import React from 'react';
 import { render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { renderBlocks } from '../src/renderBlocks';
+import { setBlockErrorReporter } from '../src/components/BlockErrorBoundary';
+import { createRegistry, defineBlock } from '../src/registry';
+import type { RegistryBlock } from '../src/registry';
 
 jest.mock('../src/components/Hero', () => {
   const MockHero = () => <div>HeroOK</div>;
@@ -33,3 +37,76 @@ test('renders registered blocks and handles unknown types', () => {
   expect(screen.getByText(/CardListOK:0/)).toBeInTheDocument();
   expect(screen.getByRole('note')).toHaveTextContent(/Unknown block: Wut/);
 });
+
+describe('block error boundaries', () => {
+  const Boom = ({ currency }: { currency: string }): React.ReactNode => {
+    throw new RangeError(`Invalid currency code : ${currency}`);
+  };
+  const Fine = ({ text }: { text: string }) => <p>{text}</p>;
+  const local = createRegistry([
+    defineBlock({ type: 'Boom', component: Boom, schema: {} }),
+    defineBlock({ type: 'Fine', component: Fine, schema: {} }),
+  ]);
+  const blocks: Array<RegistryBlock<typeof local>> = [
+    { type: 'Fine', props: { text: 'before' } },
+    { type: 'Boom', props: { currency: 'DOLLARS' } },
+    { type: 'Fine', props: { text: 'after' } },
+  ];
+
+  let consoleError: jest.SpyInstance;
+  beforeEach(() => {
+    // React logs caught render errors; keep the test output readable
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  test('keeps rendering the rest of the page when a block throws', () => {
+    render(<>{renderBlocks(blocks, { registry: local })}</>);
+
+    expect(screen.getByText('before')).toBeInTheDocument();
+    expect(screen.getByText('after')).toBeInTheDocument();
+    expect(screen.getByRole('note')).toHaveTextContent('Failed to render block: Boom');
+  });
+
+  test('reports the error with block id, type and index', () => {
+    const onBlockError = jest.fn();
+
+    render(<>{renderBlocks(blocks, { registry: local, onBlockError })}</>);
+
+    expect(onBlockError).toHaveBeenCalledTimes(1);
+    expect(onBlockError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Invalid currency code : DOLLARS' }),
+      expect.objectContaining({ id: expect.stringMatching(/^boom-/), type: 'Boom', index: 1 })
+    );
+  });
+
+  test('reports through the registered reporter without onBlockError', () => {
+    const reporter = jest.fn();
+    setBlockErrorReporter(reporter);
+    try {
+      render(<>{renderBlocks(blocks, { registry: local })}</>);
+    } finally {
+      setBlockErrorReporter(undefined);
+    }
+
+    expect(reporter).toHaveBeenCalledWith(expect.any(RangeError), expect.objectContaining({ type: 'Boom', index: 1 }));
+  });
+
+  test('renders a configurable fallback', () => {
+    const { rerender } = render(
+      <>{renderBlocks(blocks, { registry: local, fallback: <span>Unavailable</span> })}</>
+    );
+    expect(screen.getByText('Unavailable')).toBeInTheDocument();
+
+    rerender(
+      <>{renderBlocks(blocks, { registry: local, fallback: (error, info) => <span>{info.type}: {error.name}</span> })}</>
+    );
+    expect(screen.getByText('Boom: RangeError')).toBeInTheDocument();
+
+    rerender(<>{renderBlocks(blocks, { registry: local, fallback: null })}</>);
+    expect(screen.queryByRole('note')).not.toBeInTheDocument();
+    expect(screen.getByText('after')).toBeInTheDocument();
+  });
+});
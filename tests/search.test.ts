@@ -0,0 +1,115 @@
+import { createSearchIndex, editDistance, foldText, mergeRanges, tokenize } from '../src/lib/search';
+
+const titles = [
+  'Taylor Swift Eras Tour',
+  'Beyoncé Renaissance World Tour',
+  'Swift Boat Races',
+  'Eras of Jazz',
+  'Sigur Rós',
+  'The Tourists',
+];
+
+const index = createSearchIndex(titles, (title) => title);
+const search = (query: string) => index.search(query).map((hit) => hit.item);
+
+describe('text folding', () => {
+  test('drops accents and case', () => {
+    expect(foldText('Beyoncé')).toBe('beyonce');
+    expect(foldText('SIGUR RÓS')).toBe('sigur ros');
+  });
+
+  test('tokenizes words with their original offsets', () => {
+    expect(tokenize('Mr. Morale & the Big-Steppers').map((token) => [token.folded, token.start])).toEqual([
+      ['mr', 0],
+      ['morale', 4],
+      ['the', 13],
+      ['big', 17],
+      ['steppers', 21],
+    ]);
+  });
+});
+
+describe('editDistance', () => {
+  test('counts insertions, deletions, substitutions and swaps', () => {
+    expect(editDistance('swift', 'swift', 2)).toBe(0);
+    expect(editDistance('swft', 'swift', 2)).toBe(1);
+    expect(editDistance('swfit', 'swift', 2)).toBe(1);
+    expect(editDistance('tailor', 'taylor', 2)).toBe(1);
+  });
+
+  test('stops once the limit is exceeded', () => {
+    expect(editDistance('renaissance', 'swift', 2)).toBe(3);
+    expect(editDistance('abcd', 'wxyz', 1)).toBe(2);
+  });
+});
+
+describe('createSearchIndex', () => {
+  test('requires every word, in any order', () => {
+    expect(search('swift eras')).toEqual(['Taylor Swift Eras Tour']);
+    expect(search('eras swift')).toEqual(['Taylor Swift Eras Tour']);
+  });
+
+  test('ignores accents in both directions', () => {
+    expect(search('beyonce')).toEqual(['Beyoncé Renaissance World Tour']);
+    expect(search('sigur rós')).toEqual(['Sigur Rós']);
+  });
+
+  test('tolerates typos in longer words only', () => {
+    expect(search('tailor swfit')).toEqual(['Taylor Swift Eras Tour']);
+    expect(search('renaisance')).toEqual(['Beyoncé Renaissance World Tour']);
+    // Three-letter words must match exactly (or as a prefix)
+    expect(search('jaz')).toEqual(['Eras of Jazz']);
+    expect(search('jav')).toEqual([]);
+  });
+
+  test('matches prefixes and words inside words', () => {
+    expect(search('tay')).toEqual(['Taylor Swift Eras Tour']);
+    expect(search('urist')).toEqual(['The Tourists']);
+  });
+
+  test('ranks exact and leading matches first', () => {
+    // Exact "tour" beats the prefix of "tourists"; "swift" leading a title beats it in second place
+    expect(search('tour')).toEqual(['Taylor Swift Eras Tour', 'Beyoncé Renaissance World Tour', 'The Tourists']);
+    expect(search('swift')).toEqual(['Swift Boat Races', 'Taylor Swift Eras Tour']);
+    expect(search('eras')).toEqual(['Eras of Jazz', 'Taylor Swift Eras Tour']);
+  });
+
+  test('returns highlight ranges in the original text', () => {
+    const [hit] = index.search('beyonce tour');
+    expect(hit!.ranges).toEqual([
+      [0, 7],
+      [26, 30],
+    ]);
+
+    const [prefix] = index.search('ren');
+    expect(prefix!.item.slice(...prefix!.ranges[0]!)).toBe('Ren');
+  });
+
+  test('returns nothing for an empty query', () => {
+    expect(index.search('  ')).toEqual([]);
+  });
+
+  test('searches 10,000 titles per keystroke', () => {
+    const many = Array.from({ length: 10_000 }, (_, i) => `${titles[i % titles.length]} ${i + 1}`);
+    const large = createSearchIndex(many, (title) => title);
+
+    const started = performance.now();
+    for (const query of ['t', 'ta', 'tay', 'tayl', 'taylo', 'taylor', 'taylor swfit']) {
+      large.search(query);
+    }
+    const perKeystroke = (performance.now() - started) / 7;
+
+    expect(large.search('taylor swfit')).toHaveLength(1667);
+    // Generous bound for slow CI machines; typically a few milliseconds
+    expect(perKeystroke).toBeLessThan(100);
+  });
+});
+
+describe('mergeRanges', () => {
+  test('sorts and joins overlapping ranges', () => {
+    expect(mergeRanges([[6, 9], [0, 3], [2, 4], [9, 10]])).toEqual([
+      [0, 4],
+      [6, 10],
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { MAX_STRUCTURED_EVENTS, pageStructuredData, ticketEvent } from '../src/lib/structuredData';
+import { defaultTicketView } from '../src/lib/ticketView';
+import type { Block, Ticket } from '../src/types';
+
+const concert: Ticket = {
+  id: 'eras',
+  title: 'Eras Tour',
+  price: 245,
+  currency: 'USD',
+  startsAt: new Date('2025-07-12T20:00:00-04:00'),
+  venue: 'MetLife Stadium',
+  city: 'East Rutherford',
+  quantityAvailable: 12,
+};
+
+const tickets = (count: number): Ticket[] =>
+  Array.from({ length: count }, (_, i) => ({ ...concert, id: String(i + 1), title: `Show ${i + 1}`, price: i + 1 }));
+
+const eventNames = (data: ReturnType<typeof pageStructuredData>) =>
+  ((data?.['@graph'] ?? []) as Array<{ name: string }>).map((event) => event.name);
+
+describe('structured data', () => {
+  test('describes a ticket as an Event with an Offer', () => {
+    expect(ticketEvent(concert)).toEqual({
+      '@type': 'Event',
+      name: 'Eras Tour',
+      startDate: '2025-07-13T00:00:00.000Z',
+      location: { '@type': 'Place', name: 'MetLife Stadium', address: 'East Rutherford' },
+      offers: {
+        '@type': 'Offer',
+        price: 245,
+        priceCurrency: 'USD',
+        availability: 'https://schema.org/InStock',
+      },
+    });
+  });
+
+  test('marks sold-out offers and leaves out fields the ticket lacks', () => {
+    expect(ticketEvent({ ...concert, quantityAvailable: 0, venue: undefined })).toEqual(
+      expect.objectContaining({
+        location: { '@type': 'Place', name: 'East Rutherford', address: 'East Rutherford' },
+        offers: expect.objectContaining({ availability: 'https://schema.org/SoldOut' }),
+      })
+    );
+
+    const bare = ticketEvent({ id: '1', title: 'Gig', price: 10, currency: 'EUR', startsAt: concert.startsAt });
+    expect(bare).not.toHaveProperty('location');
+    expect(bare?.offers).toEqual({ '@type': 'Offer', price: 10, priceCurrency: 'EUR' });
+  });
+
+  test('skips tickets without a start time', () => {
+    expect(ticketEvent({ ...concert, startsAt: undefined })).toBeUndefined();
+    expect(ticketEvent({ ...concert, startsAt: new Date('not a date') })).toBeUndefined();
+  });
+
+  test('collects TicketLists nested in containers into one graph', () => {
+    const blocks: Block[] = [
+      { type: 'Hero', props: { title: 'Tonight' } },
+      {
+        type: 'Section',
+        props: { children: [{ type: 'TicketList', props: { tickets: [concert, { ...concert, startsAt: undefined }] } }] },
+      },
+    ];
+
+    expect(pageStructuredData(blocks)).toEqual({
+      '@context': 'https://schema.org',
+      '@graph': [ticketEvent(concert)],
+    });
+    expect(pageStructuredData([{ type: 'Hero', props: { title: 'Tonight' } }])).toBeUndefined();
+  });
+
+  test('follows the view and page the list renders', () => {
+    const blocks: Block[] = [{ type: 'TicketList', props: { tickets: tickets(30), mode: 'paged', pageSize: 10 } }];
+
+    expect(eventNames(pageStructuredData(blocks))).toEqual(tickets(10).map((ticket) => ticket.title));
+    expect(eventNames(pageStructuredData(blocks, { ...defaultTicketView, sort: 'price-desc', page: 3 }))).toEqual(
+      ['Show 10', 'Show 9', 'Show 8', 'Show 7', 'Show 6', 'Show 5', 'Show 4', 'Show 3', 'Show 2', 'Show 1']
+    );
+    expect(eventNames(pageStructuredData(blocks, { ...defaultTicketView, search: 'show 25' }))).toEqual(['Show 25']);
+  });
+
+  test('caps lists that render every ticket', () => {
+    const blocks: Block[] = [{ type: 'TicketList', props: { tickets: tickets(MAX_STRUCTURED_EVENTS + 10) } }];
+
+    expect(eventNames(pageStructuredData(blocks))).toHaveLength(MAX_STRUCTURED_EVENTS);
+  });
+});
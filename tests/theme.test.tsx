@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { renderToStaticMarkup } from 'react-dom/server';
+import ThemeProvider from '../src/components/ThemeProvider';
+import { renderPageDoc } from '../src/renderPageDoc';
+import { cssVarName, darkTheme, lightTheme, resolveTheme, themeCssVars, vars } from '../src/lib/theme';
+import type { PageDoc } from '../src/types';
+
+describe('theme tokens', () => {
+  test('names custom properties after the group and token', () => {
+    expect(cssVarName('color', 'primary')).toBe('--color-primary');
+    expect(cssVarName('color', 'primaryStrong')).toBe('--color-primary-strong');
+    expect(cssVarName('font', 'sizeXs')).toBe('--font-size-xs');
+  });
+
+  test('references each token with the light value as fallback', () => {
+    expect(vars.color.primary).toBe('var(--color-primary, #3b82f6)');
+    expect(vars.radius.lg).toBe('var(--radius-lg, 8px)');
+    expect(vars.shadow.focus).toBe(`var(--shadow-focus, ${lightTheme.shadow.focus})`);
+  });
+
+  test('applies overrides on top of a built-in theme without changing it', () => {
+    const theme = resolveTheme('dark', { color: { primary: '#e11d48' }, radius: { lg: '0' } });
+
+    expect(theme.color.primary).toBe('#e11d48');
+    expect(theme.color.background).toBe(darkTheme.color.background);
+    expect(theme.radius).toEqual({ ...darkTheme.radius, lg: '0' });
+    expect(darkTheme.color.primary).toBe('#60a5fa');
+    expect(resolveTheme()).toEqual(lightTheme);
+  });
+
+  test('turns tokens into custom properties', () => {
+    expect(themeCssVars({ color: { primary: '#e11d48', text: undefined }, space: { md: '1.25rem' } })).toEqual({
+      '--color-primary': '#e11d48',
+      '--space-md': '1.25rem',
+    });
+    expect(Object.keys(themeCssVars(lightTheme))).toHaveLength(
+      Object.values(lightTheme).reduce((count, group) => count + Object.keys(group).length, 0)
+    );
+  });
+});
+
+describe('ThemeProvider', () => {
+  test('sets every token of the selected theme on its wrapper', () => {
+    const html = renderToStaticMarkup(<ThemeProvider theme="dark">content</ThemeProvider>);
+
+    expect(html).toContain('data-theme="dark"');
+    expect(html).toContain(`--color-background:${darkTheme.color.background}`);
+    expect(html).toContain(`--radius-lg:${darkTheme.radius.lg}`);
+    expect(html).toContain('background-color:var(--color-background, #f8fafc)');
+  });
+
+  test('defaults to the light theme and merges overrides and styles', () => {
+    const html = renderToStaticMarkup(
+      <ThemeProvider overrides={{ color: { primary: '#e11d48' } }} style={{ minHeight: '100vh' }}>
+        content
+      </ThemeProvider>
+    );
+
+    expect(html).toContain('data-theme="light"');
+    expect(html).toContain('--color-primary:#e11d48');
+    expect(html).toContain(`--color-text:${lightTheme.color.text}`);
+    expect(html).toContain('min-height:100vh');
+  });
+});
+
+describe('themed page docs', () => {
+  const doc: PageDoc = {
+    theme: { name: 'dark', overrides: { color: { accent: '#f472b6' } } },
+    blocks: [{ type: 'Hero', props: { title: 'Tonight' } }],
+  };
+
+  test('renders with the theme the doc selects', async () => {
+    const html = renderToStaticMarkup(await renderPageDoc(doc, {}));
+
+    expect(html).toContain('data-theme="dark"');
+    expect(html).toContain('--color-accent:#f472b6');
+    expect(html).toContain(`--color-primary:${darkTheme.color.primary}`);
+    // Components style themselves with token references, not fixed colors
+    expect(html).toContain(`background:${vars.gradient.hero}`);
+  });
+
+  test('uses the light theme when the doc selects none', async () => {
+    const html = renderToStaticMarkup(await renderPageDoc({ blocks: doc.blocks }, {}));
+
+    expect(html).toContain('data-theme="light"');
+    expect(html).toContain(`--color-primary:${lightTheme.color.primary}`);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  applyTicketFilters,
+  countBy,
+  eventDay,
+  filtersFromParams,
+  filtersToParams,
+  matchesFilters,
+  noFilters,
+  priceBounds,
+} from '../src/lib/ticketFilters';
+import type { TicketFilters } from '../src/lib/ticketFilters';
+import type { Ticket } from '../src/types';
+
+const tickets: Ticket[] = [
+  {
+    id: 'nyc',
+    title: 'Late Show',
+    price: 40,
+    currency: 'USD',
+    category: 'Comedy',
+    // 10pm on July 12th in New York, already July 13th in UTC
+    startsAt: new Date('2025-07-13T02:00:00Z'),
+    timeZone: 'America/New_York',
+  },
+  { id: 'ldn', title: 'Proms', price: 30, currency: 'GBP', category: 'Classical', startsAt: new Date('2025-07-20T18:30:00Z') },
+  { id: 'par', title: 'Jazz Night', price: 55.5, currency: 'EUR', category: 'Jazz' },
+  { id: 'tbd', title: 'Mystery Gig', price: 10, currency: 'USD' },
+];
+
+// Prices are already in the display currency for these tests
+const priceOf = (ticket: Ticket) => ticket.price;
+
+const ids = (filters: TicketFilters) => applyTicketFilters(tickets, filters, priceOf).map((ticket) => ticket.id);
+
+describe('ticket filters', () => {
+  test('no filters keeps every ticket', () => {
+    expect(ids(noFilters)).toEqual(['nyc', 'ldn', 'par', 'tbd']);
+  });
+
+  test('filters by category', () => {
+    expect(ids({ categories: ['Jazz', 'Comedy'] })).toEqual(['nyc', 'par']);
+  });
+
+  test('filters by price range in the display currency', () => {
+    expect(ids({ categories: [], minPrice: 30, maxPrice: 50 })).toEqual(['nyc', 'ldn']);
+    expect(ids({ categories: [], minPrice: 50 })).toEqual(['par']);
+
+    // Tickets without a converted price can't be placed in a range
+    const noRate = (ticket: Ticket) => (ticket.currency === 'USD' ? ticket.price : undefined);
+    expect(applyTicketFilters(tickets, { categories: [], maxPrice: 100 }, noRate).map((t) => t.id)).toEqual(['nyc', 'tbd']);
+  });
+
+  test('filters by the ticket currency', () => {
+    expect(ids({ categories: [], currency: 'USD' })).toEqual(['nyc', 'tbd']);
+  });
+
+  test('filters by the calendar day at the venue', () => {
+    expect(ids({ categories: [], from: '2025-07-12', to: '2025-07-12' })).toEqual(['nyc']);
+    expect(ids({ categories: [], from: '2025-07-13' })).toEqual(['ldn']);
+  });
+
+  test('can leave one facet out for counting', () => {
+    const filters: TicketFilters = { categories: ['Jazz'], currency: 'USD' };
+
+    expect(matchesFilters(tickets[0]!, filters, priceOf)).toBe(false);
+    expect(matchesFilters(tickets[0]!, filters, priceOf, 'category')).toBe(true);
+  });
+});
+
+describe('eventDay', () => {
+  test('uses the event time zone, falling back to UTC', () => {
+    expect(eventDay(tickets[0]!)).toBe('2025-07-12');
+    expect(eventDay(tickets[1]!)).toBe('2025-07-20');
+    expect(eventDay(tickets[2]!)).toBeUndefined();
+  });
+});
+
+describe('facet helpers', () => {
+  test('countBy counts distinct values alphabetically', () => {
+    expect(countBy(tickets, (ticket) => ticket.currency)).toEqual([
+      { value: 'EUR', count: 1 },
+      { value: 'GBP', count: 1 },
+      { value: 'USD', count: 2 },
+    ]);
+    expect(countBy(tickets, (ticket) => ticket.category)).toHaveLength(3);
+  });
+
+  test('priceBounds rounds outwards to whole units', () => {
+    expect(priceBounds(tickets, priceOf)).toEqual({ min: 10, max: 56 });
+    expect(priceBounds([], priceOf)).toBeUndefined();
+  });
+});
+
+describe('URL params', () => {
+  test('round-trip through the query string', () => {
+    const filters: TicketFilters = {
+      categories: ['R&B', 'Jazz'],
+      minPrice: 25,
+      maxPrice: 150,
+      currency: 'EUR',
+      from: '2025-07-01',
+      to: '2025-07-31',
+    };
+
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(filtersToParams(filters))) {
+      if (value !== null) params.set(name, value);
+    }
+
+    expect(params.toString()).toBe(
+      'category=R%26B%2CJazz&minPrice=25&maxPrice=150&currency=EUR&from=2025-07-01&to=2025-07-31'
+    );
+    expect(filtersFromParams((name) => params.get(name))).toEqual(filters);
+  });
+
+  test('empty filters clear every param', () => {
+    expect(Object.values(filtersToParams(noFilters)).every((value) => value === null)).toBe(true);
+  });
+
+  test('ignores values that do not parse', () => {
+    const params = new URLSearchParams('minPrice=cheap&currency=ABC&from=July&category=,,');
+
+    expect(filtersFromParams((name) => params.get(name))).toEqual({ categories: [] });
+  });
+});
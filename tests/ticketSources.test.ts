@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createInMemoryTicketSource, createTicketSource } from '../src/lib/ticketSources';
+import { createJsonFileTicketSource } from '../src/lib/jsonFileTicketSource';
+import { resolveTicketData } from '../src/lib/resolveTicketData';
+import { formatIssue } from '../src/lib/propSchema';
+import type { Block } from '../src/types';
+
+const raw = [
+  { id: 1, title: 'Jazz Night', price_cents: 2500, currency: 'USD' },
+  { id: 2, title: 'Rock Show', price_cents: 4000, currency: 'EUR' },
+  { id: null, title: 'Broken', price_cents: 100, currency: 'USD' },
+  { id: 3, title: 'Late Jazz', price_cents: 1800, currency: 'GBP' },
+];
+
+describe('ticket sources', () => {
+  test('in-memory source runs records through transformTickets', async () => {
+    const source = createInMemoryTicketSource(raw);
+
+    await expect(source.getTickets()).resolves.toEqual([
+      { id: '1', title: 'Jazz Night', price: 25, currency: 'USD' },
+      { id: '2', title: 'Rock Show', price: 40, currency: 'EUR' },
+      { id: '3', title: 'Late Jazz', price: 18, currency: 'GBP' },
+    ]);
+  });
+
+  test('applies search, ids and limit queries', async () => {
+    const source = createInMemoryTicketSource(raw);
+
+    expect((await source.getTickets({ search: 'JAZZ' })).map((t) => t.id)).toEqual(['1', '3']);
+    expect((await source.getTickets({ ids: ['3', '2'] })).map((t) => t.id)).toEqual(['2', '3']);
+    expect((await source.getTickets({ limit: 1 })).map((t) => t.id)).toEqual(['1']);
+  });
+
+  test('defaults to generated mock events', async () => {
+    const tickets = await createInMemoryTicketSource().getTickets();
+
+    expect(tickets.length).toBeGreaterThan(50);
+    expect(tickets[0]).toEqual(expect.objectContaining({ id: '1', title: 'Olivia Rodrigo Guts Tour' }));
+  });
+
+  test('JSON file source reads records from disk on each request', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'tickets-'));
+    const file = path.join(dir, 'tickets.json');
+    try {
+      await writeFile(file, JSON.stringify(raw.slice(0, 1)));
+      const source = createJsonFileTicketSource(file);
+      expect(await source.getTickets()).toHaveLength(1);
+
+      await writeFile(file, JSON.stringify(raw));
+      expect(await source.getTickets()).toHaveLength(3);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('resolveTicketData', () => {
+  const sources = {
+    events: createInMemoryTicketSource(raw),
+    broken: createTicketSource(() => {
+      throw new Error('upstream down');
+    }),
+  };
+
+  test('resolves source references, including nested ones', async () => {
+    const blocks: Block[] = [
+      { type: 'Hero', props: { title: 'Tonight' } },
+      {
+        type: 'Section',
+        props: { children: [{ id: 'jazz', type: 'TicketList', props: { source: 'events', query: { search: 'jazz' } } }] },
+      },
+    ];
+
+    const { value, issues } = await resolveTicketData(blocks, sources);
+
+    expect(issues).toEqual([]);
+    expect(value[0]).toEqual(blocks[0]);
+    expect(value[1]).toEqual({
+      type: 'Section',
+      props: {
+        children: [
+          {
+            id: 'jazz',
+            type: 'TicketList',
+            props: {
+              tickets: [
+                { id: '1', title: 'Jazz Night', price: 25, currency: 'USD' },
+                { id: '3', title: 'Late Jazz', price: 18, currency: 'GBP' },
+              ],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  test('leaves inline tickets alone', async () => {
+    const blocks: Block[] = [{ type: 'TicketList', props: { tickets: [] } }];
+
+    const { value } = await resolveTicketData(blocks, sources);
+
+    expect(value).toEqual(blocks);
+  });
+
+  test('reports unknown and failing sources with empty lists', async () => {
+    const blocks: Block[] = [
+      { type: 'TicketList', props: { source: 'nope' } },
+      { type: 'TicketList', props: { source: 'broken' } },
+    ];
+
+    const { value, issues } = await resolveTicketData(blocks, sources);
+
+    expect(value.map((b) => b.props)).toEqual([{ tickets: [] }, { tickets: [] }]);
+    expect(issues.map(formatIssue)).toEqual([
+      'blocks[0].props.source: unknown ticket source "nope"',
+      'blocks[1].props.source: ticket source "broken" failed: upstream down',
+    ]);
+  });
+});
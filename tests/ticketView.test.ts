@@ -0,0 +1,91 @@
+import {
+  defaultTicketView,
+  paramGetter,
+  queryTickets,
+  sortTickets,
+  ticketViewFromParams,
+  ticketViewToParams,
+} from '../src/lib/ticketView';
+import type { Ticket } from '../src/types';
+
+const tickets: Ticket[] = [
+  { id: 'a', title: 'Jazz Night', price: 55, currency: 'EUR', category: 'Jazz' },
+  { id: 'b', title: 'Late Show', price: 40, currency: 'USD', category: 'Comedy' },
+  { id: 'c', title: 'Jazz Brunch', price: 20, currency: 'USD', category: 'Jazz' },
+  { id: 'd', title: 'Mystery Gig', price: 10, currency: 'GBP' },
+];
+
+// Only USD converts in these tests
+const priceOf = (ticket: Ticket) => (ticket.currency === 'USD' ? ticket.price : undefined);
+
+const ids = (list: Ticket[]) => list.map((ticket) => ticket.id);
+
+describe('ticket view', () => {
+  test('sorts by price with unconverted tickets last in both directions', () => {
+    expect(ids(sortTickets(tickets, 'price-asc', priceOf))).toEqual(['c', 'b', 'a', 'd']);
+    expect(ids(sortTickets(tickets, 'price-desc', priceOf))).toEqual(['b', 'c', 'a', 'd']);
+    expect(ids(sortTickets(tickets, 'title-asc', priceOf))).toEqual(['c', 'a', 'b', 'd']);
+    // Relevance keeps the incoming order
+    expect(ids(sortTickets(tickets, 'relevance', priceOf))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('searches, then filters, then sorts', () => {
+    const view = { search: 'jazz', sort: 'price-asc' as const, filters: { categories: ['Jazz'] } };
+    expect(ids(queryTickets(tickets, view, priceOf))).toEqual(['c', 'a']);
+    expect(ids(queryTickets(tickets, { ...view, filters: { categories: ['Comedy'] } }, priceOf))).toEqual([]);
+    expect(ids(queryTickets(tickets, { ...view, search: '' }, priceOf))).toEqual(['c', 'a']);
+  });
+
+  test('reads a view from query params', () => {
+    const get = paramGetter({ search: 'jazz', sort: 'title-asc', display: 'EUR', category: 'Jazz,Comedy', page: '3' });
+    expect(ticketViewFromParams(get)).toEqual({
+      search: 'jazz',
+      sort: 'title-asc',
+      displayCurrency: 'EUR',
+      filters: expect.objectContaining({ categories: ['Jazz', 'Comedy'] }),
+      page: 3,
+    });
+  });
+
+  test('falls back to defaults for params that do not parse', () => {
+    expect(ticketViewFromParams(paramGetter({}))).toEqual(defaultTicketView);
+
+    const view = ticketViewFromParams(paramGetter({ sort: 'cheapest', display: 'XYZ', page: '1.5' }));
+    expect(view.sort).toBe('price-asc');
+    expect(view.displayCurrency).toBeUndefined();
+    expect(view.page).toBe(1);
+    expect(ticketViewFromParams(paramGetter({ page: '-2' })).page).toBe(1);
+  });
+
+  test('uses the first value of repeated params', () => {
+    expect(paramGetter({ search: ['rock', 'pop'] })('search')).toBe('rock');
+    expect(paramGetter({ search: undefined })('search')).toBeNull();
+  });
+
+  test('writes defaults as removed params', () => {
+    expect(ticketViewToParams(defaultTicketView)).toEqual(
+      expect.objectContaining({ sort: null, display: null, page: null, category: null })
+    );
+    expect(
+      ticketViewToParams({ sort: 'price-desc', displayCurrency: 'GBP', filters: { categories: ['Jazz'] }, page: 2 })
+    ).toEqual(expect.objectContaining({ sort: 'price-desc', display: 'GBP', page: '2', category: 'Jazz' }));
+  });
+
+  test('round-trips through the query string', () => {
+    const view = {
+      search: '',
+      sort: 'title-asc' as const,
+      displayCurrency: 'JPY' as const,
+      filters: { categories: ['Jazz'], minPrice: 10 },
+      page: 4,
+    };
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(ticketViewToParams(view))) {
+      if (value !== null) params.set(name, value);
+    }
+    expect(ticketViewFromParams((name) => params.get(name))).toEqual({
+      ...view,
+      filters: expect.objectContaining(view.filters),
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { transformTickets } from '../src/lib/transformTickets';
+import { transformTickets, transformTicketsWithReport } from '../src/lib/transformTickets';
+import { generateMockRawTickets, mockEventCategories } from '../src/mockEvents';
 
 describe('transformTickets', () => {
   test('transforms valid ticket data correctly', () => {
@@ -51,10 +52,10 @@ describe('transformTickets', () => {
     ]);
   });
 
-  test('handles unknown currency with USD default', () => {
+  test('keeps any ISO 4217 currency and defaults a missing one to USD', () => {
     const input = [
       { id: 1, title: 'Ticket 1', price_cents: 1000, currency: 'CAD' },
-      { id: 2, title: 'Ticket 2', price_cents: 2000, currency: 'JPY' },
+      { id: 2, title: 'Ticket 2', price_cents: 2000, currency: 'AUD' },
       { id: 3, title: 'Ticket 3', price_cents: 3000, currency: null },
       { id: 4, title: 'Ticket 4', price_cents: 4000, currency: undefined },
     ];
@@ -62,13 +63,36 @@ describe('transformTickets', () => {
     const result = transformTickets(input);
 
     expect(result).toEqual([
-      { id: '1', title: 'Ticket 1', price: 10.00, currency: 'USD' },
-      { id: '2', title: 'Ticket 2', price: 20.00, currency: 'USD' },
+      { id: '1', title: 'Ticket 1', price: 10.00, currency: 'CAD' },
+      { id: '2', title: 'Ticket 2', price: 20.00, currency: 'AUD' },
       { id: '3', title: 'Ticket 3', price: 30.00, currency: 'USD' },
       { id: '4', title: 'Ticket 4', price: 40.00, currency: 'USD' },
     ]);
   });
 
+  test('converts minor units using each currency\'s decimals', () => {
+    const input = [
+      { id: 1, title: 'Tokyo', price_cents: 12000, currency: 'JPY' },
+      { id: 2, title: 'Kuwait City', price_cents: 12345, currency: 'KWD' },
+      { id: 3, title: 'Zurich', price_cents: 12345, currency: 'CHF' },
+    ];
+
+    const result = transformTickets(input);
+
+    expect(result.map((ticket) => ticket.price)).toEqual([12000, 12.345, 123.45]);
+  });
+
+  test('drops tickets with an unknown currency', () => {
+    const input = [
+      { id: 1, title: 'Ticket 1', price_cents: 1000, currency: 'XYZ' },
+      { id: 2, title: 'Ticket 2', price_cents: 2000, currency: 'EUR' },
+    ];
+
+    expect(transformTickets(input)).toEqual([
+      { id: '2', title: 'Ticket 2', price: 20.00, currency: 'EUR' },
+    ]);
+  });
+
   test('filters out entries with missing id', () => {
     const input = [
       { id: 1, title: 'Valid Ticket', price_cents: 1000, currency: 'USD' },
@@ -129,7 +153,7 @@ describe('transformTickets', () => {
 
     expect(result).toEqual([
       { id: '1', title: 'Valid Ticket', price: 10.00, currency: 'USD' },
-      { id: '2', title: 'Untitled', price: 0, currency: 'USD' },
+      { id: '2', title: 'Untitled', price: 0, currency: 'CAD' },
       { id: '3', title: 'Another Valid', price: 30.00, currency: 'GBP' },
     ]);
   });
@@ -150,3 +174,127 @@ describe('transformTickets', () => {
     ]);
   });
 });
+
+describe('transformTicketsWithReport', () => {
+  test('reports a reason for every coerced or dropped record', () => {
+    const input = [
+      { id: 1, title: 'Valid', price_cents: 1000, currency: 'USD' },
+      { id: 2, title: '', price_cents: 'free', currency: 'eur' },
+      { id: 3, title: 'Mystery', price_cents: 1000, currency: 'XYZ' },
+      { id: null, title: 'No id', price_cents: 1000, currency: 'USD' },
+      'not a ticket',
+      { id: 6, title: 'No currency', price_cents: 500 },
+    ];
+
+    const { tickets, warnings, rejected } = transformTicketsWithReport(input);
+
+    expect(tickets.map((ticket) => ticket.id)).toEqual(['1', '2', '6']);
+    expect(tickets[1]).toEqual({ id: '2', title: 'Untitled', price: 0, currency: 'EUR' });
+    expect(warnings).toEqual([
+      { index: 1, id: '2', reason: 'missing title, defaulted to "Untitled"' },
+      { index: 1, id: '2', reason: 'currency "eur" normalized to EUR' },
+      { index: 1, id: '2', reason: 'invalid price_cents, defaulted to 0' },
+      { index: 5, id: '6', reason: 'missing currency, defaulted to USD' },
+    ]);
+    expect(rejected).toEqual([
+      { index: 2, id: '3', reason: 'unknown currency "XYZ"' },
+      { index: 3, reason: 'missing id' },
+      { index: 4, reason: 'not an object' },
+    ]);
+  });
+
+  test('rejects input that is not an array', () => {
+    expect(transformTicketsWithReport({ tickets: [] })).toEqual({
+      tickets: [],
+      warnings: [],
+      rejected: [{ index: -1, reason: 'expected an array of ticket records' }],
+    });
+  });
+
+  test('reports nothing for clean data', () => {
+    const { warnings, rejected } = transformTicketsWithReport([
+      { id: 1, title: 'Clean', price_cents: 1000, currency: 'GBP' },
+    ]);
+
+    expect(warnings).toEqual([]);
+    expect(rejected).toEqual([]);
+  });
+});
+
+describe('event details', () => {
+  test('parses date, venue, category, availability and seat fields', () => {
+    const [ticket] = transformTickets([
+      {
+        id: 1,
+        title: 'Eras Tour',
+        price_cents: 25000,
+        currency: 'USD',
+        starts_at: '2025-07-12T20:00:00-04:00',
+        timezone: 'America/New_York',
+        venue: ' Madison Square Garden ',
+        city: 'New York',
+        category: 'Pop',
+        quantity_available: 12,
+        section: 104,
+        row: 'F',
+      },
+    ]);
+
+    expect(ticket).toEqual({
+      id: '1',
+      title: 'Eras Tour',
+      price: 250,
+      currency: 'USD',
+      startsAt: new Date('2025-07-13T00:00:00Z'),
+      timeZone: 'America/New_York',
+      venue: 'Madison Square Garden',
+      city: 'New York',
+      category: 'Pop',
+      quantityAvailable: 12,
+      section: '104',
+      row: 'F',
+    });
+  });
+
+  test('drops invalid details with a warning and keeps the ticket', () => {
+    const { tickets, warnings } = transformTicketsWithReport([
+      {
+        id: 1,
+        title: 'Eras Tour',
+        price_cents: 25000,
+        currency: 'USD',
+        starts_at: '2025-07-12T20:00:00',
+        timezone: 'Mars/Olympus_Mons',
+        quantity_available: -3,
+        venue: 42,
+      },
+    ]);
+
+    expect(tickets).toEqual([{ id: '1', title: 'Eras Tour', price: 250, currency: 'USD' }]);
+    expect(warnings.map((warning) => warning.reason)).toEqual([
+      'starts_at "2025-07-12T20:00:00" is not an ISO 8601 date-time with a UTC offset, dropped',
+      'unknown timezone "Mars/Olympus_Mons", dropped',
+      'invalid venue, dropped',
+      'quantity_available -3 is not a non-negative integer, dropped',
+    ]);
+  });
+
+  test('treats a Z suffix as UTC', () => {
+    const [ticket] = transformTickets([
+      { id: 1, title: 'Late Show', price_cents: 100, currency: 'USD', starts_at: '2025-01-01T23:30:00Z' },
+    ]);
+
+    expect(ticket!.startsAt!.toISOString()).toBe('2025-01-01T23:30:00.000Z');
+  });
+
+  test('accepts the mock generator output without warnings', () => {
+    const raw = generateMockRawTickets();
+    const { tickets, warnings, rejected } = transformTicketsWithReport(raw);
+
+    expect(warnings).toEqual([]);
+    expect(rejected).toEqual([]);
+    expect(tickets).toHaveLength(raw.length);
+    expect(new Set(tickets.map((ticket) => ticket.category))).toEqual(new Set(mockEventCategories));
+    expect(tickets.every((ticket) => ticket.startsAt instanceof Date && ticket.venue && ticket.row)).toBe(true);
+  });
+});
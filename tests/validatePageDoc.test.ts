@@ -0,0 +1,225 @@
+import { validateBlocks, validatePageDoc, PageDocValidationError } from '../src/lib/validatePageDoc';
+import { formatIssue } from '../src/lib/propSchema';
+import { currencyCodes } from '../src/lib/currencies';
+
+const validDoc = {
+  pageTitle: 'Concert Deals',
+  blocks: [
+    { type: 'Hero', props: { title: 'Hot Tickets', subtitle: 'Save' } },
+    { type: 'CardList', props: { items: [{ title: 'Knicks', price: 89 }] } },
+    { type: 'CTA', props: { label: 'Browse', href: '/events', variant: 'primary' } },
+    { type: 'SearchBar', props: { placeholder: 'Search...', debounceMs: 200 } },
+    {
+      type: 'TicketList',
+      props: { tickets: [{ id: '1', title: 'Eras', price: 12.5, currency: 'USD' }] },
+    },
+    { type: 'PricePanel', props: { ticket: { id: '1', title: 'Eras', price: 12.5, currency: 'USD', quantityAvailable: 3 } } },
+  ],
+};
+
+describe('validatePageDoc', () => {
+  test('accepts a valid document covering every block type', () => {
+    const { value, issues } = validatePageDoc(validDoc, { mode: 'strict' });
+
+    expect(issues).toEqual([]);
+    expect(value).toEqual(validDoc);
+  });
+
+  test('reports path-level errors for missing required props', () => {
+    const doc = {
+      blocks: [
+        { type: 'Hero', props: { title: 'ok' } },
+        { type: 'Hero', props: { title: 'ok' } },
+        { type: 'CTA', props: { label: 'Browse' } },
+      ],
+    };
+
+    const { value, issues } = validatePageDoc(doc);
+
+    expect(issues.map(formatIssue)).toEqual(['blocks[2].props.href: required']);
+    expect(value.blocks).toHaveLength(2);
+  });
+
+  test('drops blocks with wrong prop types in lenient mode', () => {
+    const doc = { blocks: [{ type: 'CardList', props: { items: 'not a list' } }] };
+
+    const { value, issues } = validatePageDoc(doc, { mode: 'lenient' });
+
+    expect(value.blocks).toEqual([]);
+    expect(issues.map(formatIssue)).toEqual(['blocks[0].props.items: expected array']);
+  });
+
+  test('repairs invalid optional props and array items', () => {
+    const doc = {
+      blocks: [
+        { type: 'CTA', props: { label: 'Go', href: '/go', variant: 'loud' } },
+        { type: 'CardList', props: { items: [{ title: 'A', price: 'cheap' }, { price: 5 }, { title: 'B' }] } },
+      ],
+    };
+
+    const { value, issues } = validatePageDoc(doc);
+
+    expect(value.blocks).toEqual([
+      { type: 'CTA', props: { label: 'Go', href: '/go' } },
+      { type: 'CardList', props: { items: [{ title: 'A' }, { title: 'B' }] } },
+    ]);
+    expect(issues.map(formatIssue)).toEqual([
+      'blocks[0].props.variant: expected one of "primary", "secondary"',
+      'blocks[1].props.items[0].price: expected number',
+      'blocks[1].props.items[1].title: required',
+    ]);
+  });
+
+  test('drops unknown and malformed blocks', () => {
+    const doc = { blocks: [null, { props: {} }, { type: 'Wut', props: {} }, { type: 'Hero', props: 'x' }] };
+
+    const { value, issues } = validatePageDoc(doc);
+
+    expect(value.blocks).toEqual([]);
+    expect(issues.map(formatIssue)).toEqual([
+      'blocks[0]: expected object',
+      'blocks[1].type: required',
+      'blocks[2].type: unknown block type "Wut"',
+      'blocks[3].props: expected object',
+    ]);
+  });
+
+  test('validates nested ticket records', () => {
+    const doc = {
+      blocks: [
+        {
+          type: 'TicketList',
+          props: {
+            tickets: [
+              { id: '1', title: 'Eras', price: 10, currency: 'USD' },
+              { id: '2', title: 'Guts', price: 20, currency: 'XYZ' },
+            ],
+          },
+        },
+      ],
+    };
+
+    const { value, issues } = validatePageDoc(doc);
+
+    expect(value.blocks[0]).toEqual({
+      type: 'TicketList',
+      props: { tickets: [{ id: '1', title: 'Eras', price: 10, currency: 'USD' }] },
+    });
+    expect(issues.map(formatIssue)).toEqual([
+      `blocks[0].props.tickets[1].currency: expected one of ${currencyCodes.length} allowed values`,
+    ]);
+  });
+
+  test('requires a TicketList to have tickets or a source', () => {
+    const doc = { blocks: [{ type: 'TicketList', props: { pageSize: 10 } }] };
+
+    expect(validatePageDoc(doc).issues.map(formatIssue)).toEqual(['blocks[0].props: expected tickets or source']);
+    expect(() => validatePageDoc(doc, { mode: 'strict' })).toThrow('blocks[0].props: expected tickets or source');
+    expect(validatePageDoc({ blocks: [{ type: 'TicketList', props: { source: 'events' } }] }, { mode: 'strict' }).issues).toEqual([]);
+  });
+
+  test('throws with every issue in strict mode', () => {
+    const doc = {
+      pageTitle: 42,
+      blocks: [{ type: 'CTA', props: {} }],
+    };
+
+    expect(() => validatePageDoc(doc, { mode: 'strict' })).toThrow(PageDocValidationError);
+    try {
+      validatePageDoc(doc, { mode: 'strict' });
+    } catch (error) {
+      expect((error as PageDocValidationError).issues.map(formatIssue)).toEqual([
+        'pageTitle: expected string',
+        'blocks[0].props.label: required',
+        'blocks[0].props.href: required',
+      ]);
+    }
+  });
+
+  test('keeps valid seo fields and drops invalid ones', () => {
+    const seo = { title: 'Deals', description: 'Cheap seats', canonical: '/deals', ogImage: '/og.png', noindex: true };
+    expect(validatePageDoc({ seo, blocks: [] }, { mode: 'strict' }).value).toEqual({ seo, blocks: [] });
+
+    const { value, issues } = validatePageDoc({ seo: { title: 'Deals', noindex: 'yes' }, blocks: [] });
+    expect(value.seo).toEqual({ title: 'Deals' });
+    expect(issues.map(formatIssue)).toEqual(['seo.noindex: expected boolean']);
+
+    const notAnObject = validatePageDoc({ seo: 'Deals', blocks: [] });
+    expect(notAnObject.value).toEqual({ blocks: [] });
+    expect(notAnObject.issues.map(formatIssue)).toEqual(['seo: expected object']);
+  });
+
+  test('keeps a valid theme and drops unknown names and non-string tokens', () => {
+    const theme = { name: 'dark', overrides: { color: { primary: '#e11d48' }, radius: { lg: '0' } } };
+    expect(validatePageDoc({ theme, blocks: [] }, { mode: 'strict' }).value).toEqual({ theme, blocks: [] });
+
+    const { value, issues } = validatePageDoc({
+      theme: { name: 'sepia', overrides: { color: { primary: 1, accent: '#e11d48' } } },
+      blocks: [],
+    });
+    expect(value.theme).toEqual({ overrides: { color: { accent: '#e11d48' } } });
+    expect(issues.map(formatIssue)).toEqual([
+      'theme.name: expected one of "light", "dark"',
+      'theme.overrides.color.primary: expected string',
+    ]);
+  });
+
+  test('keeps status, schedule and revisions, and drops malformed ones', () => {
+    const doc = {
+      status: 'scheduled',
+      publishAt: '2025-07-01T09:00:00Z',
+      unpublishAt: '2025-08-01T00:00:00+02:00',
+      revision: 3,
+      savedAt: '2025-06-01T12:00:00.000Z',
+      revisions: [{ pageTitle: 'Old', status: 'draft', revision: 2, blocks: [{ type: 'Hero', props: { title: 'Old' } }] }],
+      blocks: [],
+    };
+    expect(validatePageDoc(doc, { mode: 'strict' }).value).toEqual(doc);
+
+    const { value, issues } = validatePageDoc({
+      status: 'archived',
+      publishAt: 'next tuesday',
+      unpublishAt: '2025-08-01T09:00',
+      revision: '3',
+      revisions: [
+        'v1',
+        { pageTitle: 'Old', revisions: [{ blocks: [] }], blocks: [{ type: 'Hero', props: {} }, { type: 'Hero', props: { title: 'Kept' } }] },
+      ],
+      blocks: [],
+    });
+    expect(value).toEqual({ revisions: [{ pageTitle: 'Old', blocks: [{ type: 'Hero', props: { title: 'Kept' } }] }], blocks: [] });
+    expect(issues.map(formatIssue)).toEqual([
+      'status: expected one of "draft", "scheduled", "published"',
+      'revision: expected number',
+      'publishAt: expected an ISO 8601 date-time with a UTC offset',
+      'unpublishAt: expected an ISO 8601 date-time with a UTC offset',
+      'revisions[0]: expected object',
+      'revisions[1].blocks[0].props.title: required',
+    ]);
+  });
+
+  test('flags schedules that can never go live', () => {
+    expect(validatePageDoc({ status: 'scheduled', blocks: [] }).issues.map(formatIssue)).toEqual([
+      'publishAt: required when status is "scheduled"',
+    ]);
+    expect(
+      validatePageDoc({ publishAt: '2025-07-01T09:00:00Z', unpublishAt: '2025-07-01T08:00:00Z', blocks: [] }).issues.map(formatIssue)
+    ).toEqual(['unpublishAt: expected a time after publishAt']);
+    expect(() => validatePageDoc({ status: 'scheduled', blocks: [] }, { mode: 'strict' })).toThrow(PageDocValidationError);
+  });
+
+  test('handles non-object documents and non-array blocks', () => {
+    expect(validatePageDoc('nope').value).toEqual({ blocks: [] });
+    expect(validatePageDoc({ blocks: {} }).issues.map(formatIssue)).toEqual(['blocks: expected array']);
+    expect(() => validatePageDoc(null, { mode: 'strict' })).toThrow('(root): expected object');
+  });
+});
+
+describe('validateBlocks', () => {
+  test('validates a bare block list', () => {
+    const { value, issues } = validateBlocks([{ type: 'Hero', props: { title: 'T' } }, { type: 'Hero' }]);
+
+    expect(value).toEqual([{ type: 'Hero', props: { title: 'T' } }]);
+    expect(issues.map(formatIssue)).toEqual(['blocks[1].props.title: required']);
+  });
+});